@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  Alias,
+  findAlias,
+  generateAliases,
+  readAliases,
+  recordAliasLogin,
+  retireAliases,
+} from "./aliases";
+import type { LastLogin } from "./profiles";
+
+describe("alias registry", () => {
+  const saved = process.env.ALIASES_FILE;
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "aliases-test-"));
+    file = join(dir, "aliases.json");
+    process.env.ALIASES_FILE = file;
+  });
+
+  afterEach(async () => {
+    if (saved === undefined) delete process.env.ALIASES_FILE;
+    else process.env.ALIASES_FILE = saved;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const emails = (aliases: Alias[]) => aliases.map((alias) => alias.email);
+
+  describe("generateAliases", () => {
+    test("numbers +tag aliases of the untagged inbox", async () => {
+      const created = await generateAliases({ base: "Me+old@Gmail.com", count: 3 });
+
+      expect(emails(created)).toEqual([
+        "me+test1@gmail.com",
+        "me+test2@gmail.com",
+        "me+test3@gmail.com",
+      ]);
+      expect(created[0]).toMatchObject({
+        base: "me@gmail.com",
+        tag: "test1",
+        userDataDir: join("browser-data", "me+test1@gmail.com"),
+      });
+      expect(Object.keys(await readAliases())).toEqual(emails(created));
+    });
+
+    test("continues after aliases already in the registry", async () => {
+      await generateAliases({ base: "me@gmail.com", count: 2 });
+
+      const created = await generateAliases({ base: "me@gmail.com", count: 2 });
+
+      expect(emails(created)).toEqual(["me+test3@gmail.com", "me+test4@gmail.com"]);
+      expect(Object.keys(await readAliases())).toHaveLength(4);
+    });
+
+    test("never reuses the tag of a retired alias", async () => {
+      await generateAliases({ base: "me@gmail.com" });
+      await retireAliases(["me+test1@gmail.com"]);
+
+      const [created] = await generateAliases({ base: "me@gmail.com" });
+
+      expect(created.email).toBe("me+test2@gmail.com");
+    });
+
+    test("keeps entries written by hand", async () => {
+      await writeFile(
+        file,
+        JSON.stringify({
+          "me+test1@gmail.com": {
+            email: "me+test1@gmail.com",
+            base: "me@gmail.com",
+            tag: "test1",
+            createdAt: "2024-01-01T00:00:00.000Z",
+            role: "approver",
+            userDataDir: "browser-data/approver",
+          },
+        })
+      );
+
+      const [created] = await generateAliases({ base: "me@gmail.com" });
+
+      expect(created.email).toBe("me+test2@gmail.com");
+      expect((await findAlias("ME+TEST1@gmail.com"))?.role).toBe("approver");
+    });
+
+    test("fills in role and pattern placeholders", async () => {
+      const created = await generateAliases({
+        base: "me@gmail.com",
+        pattern: "{role}-{n}",
+        role: "Expense Approver",
+        count: 2,
+      });
+
+      expect(emails(created)).toEqual([
+        "me+expense-approver-1@gmail.com",
+        "me+expense-approver-2@gmail.com",
+      ]);
+      expect(created[0].role).toBe("Expense Approver");
+    });
+
+    test("makes unique tags from {rand}", async () => {
+      const created = await generateAliases({ base: "me@gmail.com", pattern: "r{rand}", count: 5 });
+
+      expect(new Set(emails(created)).size).toBe(5);
+      for (const alias of created) expect(alias.tag).toMatch(/^r[0-9a-f]{4}$/);
+    });
+
+    test("rejects a pattern that can't make unique tags", async () => {
+      await expect(generateAliases({ base: "me@gmail.com", pattern: "qa" })).rejects.toThrow(
+        "needs {n} or {rand}"
+      );
+    });
+
+    test("rejects tags with characters mail servers mangle", async () => {
+      await expect(
+        generateAliases({ base: "me@gmail.com", pattern: "{n}+x" })
+      ).rejects.toThrow('Tag "1+x"');
+    });
+
+    test("rejects a base that isn't an address", async () => {
+      await expect(generateAliases({ base: "me" })).rejects.toThrow('Invalid base email "me"');
+    });
+  });
+
+  describe("retireAliases", () => {
+    test("marks known aliases retired and skips unknown ones", async () => {
+      await generateAliases({ base: "me@gmail.com", count: 2 });
+
+      const retired = await retireAliases(["ME+TEST2@gmail.com", "nobody@gmail.com"]);
+
+      expect(emails(retired)).toEqual(["me+test2@gmail.com"]);
+      const aliases = await readAliases();
+      expect(aliases["me+test1@gmail.com"].retiredAt).toBeUndefined();
+      expect(aliases["me+test2@gmail.com"].retiredAt).toBeString();
+    });
+
+    test("keeps the first retirement date", async () => {
+      await generateAliases({ base: "me@gmail.com" });
+      const [first] = await retireAliases(["me+test1@gmail.com"]);
+      await Bun.sleep(5);
+
+      const [again] = await retireAliases(["me+test1@gmail.com"]);
+
+      expect(again.retiredAt).toBe(first.retiredAt!);
+    });
+  });
+
+  test("records the last login on registered aliases only", async () => {
+    await generateAliases({ base: "me@gmail.com" });
+    const login: LastLogin = { at: "2024-01-01T00:00:00.000Z", status: "success" };
+
+    await recordAliasLogin("me+test1@gmail.com", login);
+    await recordAliasLogin("me+other@gmail.com", login);
+
+    expect((await findAlias("me+test1@gmail.com"))?.lastLogin).toEqual(login);
+    expect(Object.keys(JSON.parse(await readFile(file, "utf8")))).toEqual([
+      "me+test1@gmail.com",
+    ]);
+  });
+
+  test("reports a registry that isn't JSON", async () => {
+    await writeFile(file, "{ not json");
+
+    await expect(readAliases()).rejects.toThrow(`Could not read ${file}`);
+  });
+});
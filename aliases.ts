@@ -0,0 +1,136 @@
+import { randomBytes } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { stripEmailTag } from "./auto-login";
+import type { LastLogin } from "./profiles";
+
+const ALIASES_FILE = "aliases.json";
+
+export const DEFAULT_ALIAS_PATTERN = "test{n}";
+
+/**
+ * A generated +tag address. The Expensify account behind it outlives the
+ * entry, so retired aliases are kept and their tags never reused.
+ */
+export interface Alias {
+  email: string;
+  /** Inbox the alias delivers to (the email without +tag) */
+  base: string;
+  tag: string;
+  createdAt: string;
+  /** What the account is for, e.g. approver or "expense import tests" */
+  role?: string;
+  lastLogin?: LastLogin;
+  /** Browser profile directory the alias logs in with */
+  userDataDir: string;
+  retiredAt?: string;
+}
+
+export interface GenerateOptions {
+  base: string;
+  /**
+   * Tag template: {n} is the next unused number, {date} today as YYYYMMDD,
+   * {role} the role and {rand} 4 random hex digits. Default: test{n}
+   */
+  pattern?: string;
+  count?: number;
+  role?: string;
+}
+
+function registryFile(): string {
+  return process.env.ALIASES_FILE || ALIASES_FILE;
+}
+
+export async function readAliases(): Promise<Record<string, Alias>> {
+  try {
+    return JSON.parse(await readFile(registryFile(), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw new Error(`Could not read ${registryFile()}: ${(error as Error).message}`);
+  }
+}
+
+async function writeAliases(aliases: Record<string, Alias>): Promise<void> {
+  await writeFile(registryFile(), JSON.stringify(aliases, null, 2) + "\n");
+}
+
+export async function findAlias(email: string): Promise<Alias | null> {
+  return (await readAliases())[email.toLowerCase()] ?? null;
+}
+
+function expandTag(pattern: string, n: number, role: string | undefined): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+  return pattern
+    .replace(/\{n\}/g, String(n))
+    .replace(/\{date\}/g, date)
+    .replace(/\{role\}/g, (role ?? "").toLowerCase().replace(/[^a-z0-9]+/g, "-"))
+    .replace(/\{rand\}/g, () => randomBytes(2).toString("hex"));
+}
+
+/**
+ * Adds `count` new aliases of `base` to the registry. Tags already in the
+ * registry, retired or not, are skipped.
+ */
+export async function generateAliases(options: GenerateOptions): Promise<Alias[]> {
+  const base = stripEmailTag(options.base).toLowerCase();
+  const [local, domain] = base.split("@");
+  if (!local || !domain) {
+    throw new Error(`Invalid base email "${options.base}"`);
+  }
+  const pattern = options.pattern ?? DEFAULT_ALIAS_PATTERN;
+  if (!/\{n\}|\{rand\}/.test(pattern)) {
+    throw new Error(`Pattern "${pattern}" needs {n} or {rand} to make unique tags`);
+  }
+
+  const aliases = await readAliases();
+  const created: Alias[] = [];
+  for (let n = 1; created.length < (options.count ?? 1); n++) {
+    const tag = expandTag(pattern, n, options.role);
+    if (!/^[a-z0-9._-]+$/i.test(tag)) {
+      throw new Error(`Tag "${tag}" from pattern "${pattern}" may only use letters, digits, . _ -`);
+    }
+    const email = `${local}+${tag}@${domain}`.toLowerCase();
+    if (aliases[email]) continue;
+
+    const alias: Alias = {
+      email,
+      base,
+      tag,
+      createdAt: new Date().toISOString(),
+      role: options.role,
+      userDataDir: join("browser-data", email),
+    };
+    aliases[email] = alias;
+    created.push(alias);
+  }
+
+  await writeAliases(aliases);
+  return created;
+}
+
+/**
+ * Marks aliases retired and returns the ones that were found
+ */
+export async function retireAliases(emails: string[]): Promise<Alias[]> {
+  const aliases = await readAliases();
+  const retired: Alias[] = [];
+  for (const email of emails) {
+    const alias = aliases[email.toLowerCase()];
+    if (!alias) continue;
+    alias.retiredAt ??= new Date().toISOString();
+    retired.push(alias);
+  }
+  await writeAliases(aliases);
+  return retired;
+}
+
+/**
+ * Stores a login result on the alias, if the address is a registered one
+ */
+export async function recordAliasLogin(email: string, login: LastLogin): Promise<void> {
+  const aliases = await readAliases();
+  const alias = aliases[email.toLowerCase()];
+  if (!alias) return;
+  alias.lastLogin = login;
+  await writeAliases(aliases);
+}
@@ -0,0 +1,245 @@
+import { mkdir, readdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type {
+  BrowserContext,
+  ConsoleMessage,
+  Page,
+  Request,
+  Response,
+} from "playwright";
+import { logger } from "./logger";
+
+/**
+ * Same names as Playwright test's `trace` option
+ */
+export type TraceMode = "off" | "on" | "retain-on-failure";
+
+export interface ArtifactOptions {
+  /** Parent directory; each login run gets a timestamped folder in it */
+  dir: string;
+  trace?: TraceMode;
+  /** How many run folders to keep; older ones are deleted. Default: 20 */
+  keep?: number;
+}
+
+// Console and network logs keep only the most recent entries
+const MAX_LOG_LINES = 1000;
+
+// Query parameters Expensify's API uses for credentials and codes
+const SECRET_PARAMS = /([?&](?:authToken|validateCode|password|twoFactorAuthCode)=)[^&]*/gi;
+
+/**
+ * Records what the browser did during a login so failures in headless runs
+ * can be inspected afterwards: a Playwright trace of the whole run, plus a
+ * screenshot, DOM snapshot and the console/network log every time a step
+ * throws. Nothing is written for successful runs unless trace is "on".
+ */
+export class ArtifactRecorder {
+  private options: ArtifactOptions;
+  private label: string;
+  private context: BrowserContext | null = null;
+  private page: Page | null = null;
+  private tracing: boolean = false;
+  private runDir: string | null = null;
+  private startedAt: Date = new Date();
+  private failures: number = 0;
+  private consoleLog: string[] = [];
+  private networkLog: string[] = [];
+  private detach: (() => void) | null = null;
+
+  constructor(options: ArtifactOptions, label: string) {
+    this.options = options;
+    // Keep folder names filesystem-safe
+    this.label = label.replace(/[^\w.+@-]/g, "_");
+  }
+
+  async start(context: BrowserContext, page: Page): Promise<void> {
+    this.context = context;
+    this.page = page;
+    this.startedAt = new Date();
+
+    const onConsole = (message: ConsoleMessage) =>
+      this.append(this.consoleLog, `[${message.type()}] ${message.text()}`);
+    const onPageError = (error: Error) =>
+      this.append(this.consoleLog, `[pageerror] ${error.message}`);
+    const onResponse = (response: Response) =>
+      this.append(
+        this.networkLog,
+        `${response.status()} ${response.request().method()} ${response.url()}`
+      );
+    const onRequestFailed = (request: Request) =>
+      this.append(
+        this.networkLog,
+        `FAILED ${request.method()} ${request.url()} (${request.failure()?.errorText ?? "unknown"})`
+      );
+
+    page.on("console", onConsole);
+    page.on("pageerror", onPageError);
+    page.on("response", onResponse);
+    page.on("requestfailed", onRequestFailed);
+    // The page outlives the recorder when keep-alive re-logs in
+    this.detach = () => {
+      page.off("console", onConsole);
+      page.off("pageerror", onPageError);
+      page.off("response", onResponse);
+      page.off("requestfailed", onRequestFailed);
+    };
+
+    if ((this.options.trace ?? "retain-on-failure") !== "off") {
+      try {
+        await context.tracing.start({ screenshots: true, snapshots: true });
+        this.tracing = true;
+      } catch (error) {
+        // e.g. the caller's own context is already tracing
+        logger.warn("⚠️  Could not start Playwright trace", { error });
+      }
+    }
+  }
+
+  private append(log: string[], line: string): void {
+    log.push(`${new Date().toISOString()} ${logger.redact(line.replace(SECRET_PARAMS, "$1***"))}`);
+    if (log.length > MAX_LOG_LINES) log.shift();
+  }
+
+  private async ensureRunDir(): Promise<string> {
+    if (!this.runDir) {
+      const stamp = this.startedAt.toISOString().replace(/[:.]/g, "-");
+      this.runDir = join(this.options.dir, `${stamp}_${this.label}`);
+      await mkdir(this.runDir, { recursive: true });
+    }
+    return this.runDir;
+  }
+
+  /**
+   * Saves a screenshot, the page HTML, the error and the logs so far.
+   * `step` names the files, e.g. the login state that failed.
+   */
+  async captureFailure(step: string, error: unknown): Promise<void> {
+    if (!this.page) return;
+    const dir = await this.ensureRunDir();
+    const prefix = `${String(++this.failures).padStart(2, "0")}-${step}`;
+
+    const message =
+      error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    const writes: Promise<unknown>[] = [
+      writeFile(
+        join(dir, `${prefix}-error.txt`),
+        `${logger.redact(message)}\nURL: ${logger.redact(this.page.url())}\n`
+      ),
+      this.page.screenshot({ path: join(dir, `${prefix}.png`), fullPage: true }),
+      this.page
+        .content()
+        .then((html) => writeFile(join(dir, `${prefix}.html`), html)),
+      this.writeLogs(dir),
+    ];
+
+    // A crashed or closed page shouldn't hide the original error
+    const results = await Promise.allSettled(writes);
+    for (const result of results) {
+      if (result.status === "rejected") {
+        logger.debug("Could not save a failure artifact", { error: result.reason });
+      }
+    }
+    logger.info(`📸 Saved failure artifacts to ${dir}`);
+  }
+
+  private async writeLogs(dir: string): Promise<void> {
+    await writeFile(join(dir, "console.log"), this.consoleLog.join("\n") + "\n");
+    await writeFile(join(dir, "network.log"), this.networkLog.join("\n") + "\n");
+  }
+
+  /**
+   * Ends the run: keeps the trace if the login failed (or trace is "on"),
+   * then prunes old run folders
+   */
+  async finish(failed: boolean): Promise<void> {
+    this.detach?.();
+    this.detach = null;
+    const keepTrace =
+      this.tracing && (failed || this.options.trace === "on");
+
+    if (this.tracing && this.context) {
+      try {
+        if (keepTrace) {
+          const dir = await this.ensureRunDir();
+          await this.context.tracing.stop({ path: join(dir, "trace.zip") });
+          await this.writeLogs(dir);
+          logger.info(
+            `🎞️  Trace saved, open with: bunx playwright show-trace ${join(dir, "trace.zip")}`
+          );
+        } else {
+          await this.context.tracing.stop();
+        }
+      } catch (error) {
+        logger.warn("⚠️  Could not save Playwright trace", { error });
+      }
+      this.tracing = false;
+    }
+
+    if (this.runDir) {
+      await pruneArtifacts(this.options.dir, this.options.keep ?? 20).catch((error) => {
+        logger.warn("⚠️  Could not prune old artifacts", { error });
+      });
+    }
+  }
+}
+
+/**
+ * Deletes all but the newest `keep` run folders. Folder names start with
+ * an ISO timestamp, so name order is age order.
+ */
+export async function pruneArtifacts(dir: string, keep: number): Promise<void> {
+  // A NaN here would make slice() select, and delete, every run
+  if (!Number.isInteger(keep) || keep < 1) {
+    throw new Error(`Invalid number of artifact runs to keep: ${keep}`);
+  }
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  const runs = entries
+    .filter((entry) => entry.isDirectory() && /^\d{4}-\d{2}-\d{2}T/.test(entry.name))
+    .map((entry) => entry.name)
+    .sort()
+    .reverse();
+
+  for (const name of runs.slice(keep)) {
+    await rm(join(dir, name), { recursive: true, force: true });
+  }
+}
+
+/**
+ * ARTIFACTS_DIR enables capture; TRACE and ARTIFACTS_KEEP tune it
+ */
+export function artifactOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ArtifactOptions | undefined {
+  if (!env.ARTIFACTS_DIR) return undefined;
+  return {
+    dir: env.ARTIFACTS_DIR,
+    trace: parseTraceMode(env.TRACE),
+    keep: parseKeep(env.ARTIFACTS_KEEP),
+  };
+}
+
+function parseKeep(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const keep = Number(value);
+  if (!/^\d+$/.test(value.trim()) || keep < 1) {
+    throw new Error(`Invalid ARTIFACTS_KEEP "${value}" (expected a positive whole number)`);
+  }
+  return keep;
+}
+
+export function parseTraceMode(value: string | undefined): TraceMode | undefined {
+  if (value === undefined) return undefined;
+  if (value !== "off" && value !== "on" && value !== "retain-on-failure") {
+    throw new Error(
+      `Unknown trace mode "${value}" (expected off, on or retain-on-failure)`
+    );
+  }
+  return value;
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { chromium } from "playwright";
+import { AutoLogin } from "./auto-login";
+import { MockExpensifyServer } from "./fixtures/mock-expensify";
+import { magicCodeEmail, MockImapServer } from "./fixtures/mock-imap";
+import { logger } from "./logger";
+import { LoginError } from "./login-errors";
+
+const EMAIL = "tester+e2e@example.com";
+const PASSWORD = "mockapppassword";
+
+// Needs Playwright's Chromium: bunx playwright install chromium
+const hasBrowser = existsSync(chromium.executablePath());
+
+// A missing browser fails the run instead of silently dropping login coverage
+if (!hasBrowser && process.env.SKIP_BROWSER_TESTS !== "1") {
+  test("Playwright's Chromium is installed", () => {
+    throw new Error(
+      "Chromium is missing: run `bunx playwright install chromium`, or set SKIP_BROWSER_TESTS=1 to skip the login tests"
+    );
+  });
+}
+
+describe.skipIf(!hasBrowser)("AutoLogin against the mock login page and inbox", () => {
+  let imap: MockImapServer;
+  let site: MockExpensifyServer;
+  let userDataDir: string;
+  // Replaces the email a magic code would be delivered in, per code issued
+  let deliver: (to: string, code: string, index: number) => void;
+
+  beforeEach(async () => {
+    logger.configure({ level: "silent" });
+    deliver = (to, code) => imap.deliver(magicCodeEmail(to, code));
+    imap = new MockImapServer({ user: "tester@example.com", password: PASSWORD });
+    site = new MockExpensifyServer({
+      onMagicCode: (to, code) => deliver(to, code, site.issuedCodes.length - 1),
+    });
+    userDataDir = await mkdtemp(join(tmpdir(), "auto-login-test-"));
+  });
+
+  afterEach(async () => {
+    await Promise.all([site.close(), imap.close()]);
+    await rm(userDataDir, { recursive: true, force: true });
+  });
+
+  async function login() {
+    const imapPort = await imap.listen();
+    const loginUrl = await site.listen();
+    const autoLogin = new AutoLogin({
+      email: EMAIL,
+      emailPassword: PASSWORD,
+      loginUrl,
+      fromEmail: "concierge@expensify.com",
+      headless: true,
+      devtools: false,
+      userDataDir,
+      mailSource: { type: "imap", host: "127.0.0.1", port: imapPort, tls: false },
+      codeTimeout: 10000,
+      browser: { slowMo: 0 },
+    });
+    try {
+      return await autoLogin.login();
+    } finally {
+      await autoLogin.close();
+    }
+  }
+
+  test("logs in with the emailed magic code", async () => {
+    const result = await login();
+
+    expect(result.status).toBe("verified");
+    expect(result.skipped).toBe(false);
+    expect(site.issuedCodes).toHaveLength(1);
+  }, 60000);
+
+  test("asks for a new code once when the first one is wrong", async () => {
+    deliver = (to, code, index) =>
+      imap.deliver(magicCodeEmail(to, index === 0 ? "000000" : code));
+
+    const result = await login();
+
+    expect(result.status).toBe("verified");
+    expect(site.issuedCodes).toHaveLength(2);
+  }, 60000);
+
+  test("asks for a new code once when the first one has expired", async () => {
+    site.variant = "expired-code";
+    deliver = (to, code, index) => {
+      if (index > 0) site.variant = "normal";
+      imap.deliver(magicCodeEmail(to, code));
+    };
+
+    const result = await login();
+
+    expect(result.status).toBe("verified");
+    expect(site.issuedCodes).toHaveLength(2);
+  }, 60000);
+
+  test("ignores error-like text on the logged-in page", async () => {
+    site.variant = "noisy-inbox";
+
+    const result = await login();
+
+    expect(result.status).toBe("verified");
+    expect(site.issuedCodes).toHaveLength(1);
+  }, 60000);
+
+  test("gives up with EXPIRED_CODE when every code has expired", async () => {
+    site.variant = "expired-code";
+
+    const error = await login().catch((e) => e);
+
+    expect(error).toBeInstanceOf(LoginError);
+    expect((error as LoginError).code).toBe("EXPIRED_CODE");
+  }, 60000);
+});
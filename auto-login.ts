@@ -1,144 +1,567 @@
-import { EmailMonitor } from "./email-monitor";
+import { EventEmitter } from "node:events";
+import type { BrowserContext, Page } from "playwright";
+import { ArtifactOptions, ArtifactRecorder } from "./artifacts";
+import type { BrowserOptions } from "./browser-options";
+import { CodeSource } from "./code-source";
+import { createCodeSource, GMAIL_IMAP, MailSourceConfig } from "./mail-sources";
 import { WebAutomation } from "./web-automation";
+import { msUntilNextWindow, totp } from "./totp";
+import { NEWDOT, SiteAdapter } from "./site-adapters";
+import {
+  isLoginError,
+  LoginError,
+  LoginErrorCode,
+  LoginState,
+} from "./login-errors";
+import {
+  completeOnboarding,
+  OnboardingDetails,
+  OnboardingResult,
+} from "./onboarding";
+import {
+  exportSession,
+  readExpensifyAuth,
+  serializeSession,
+  SESSION_FORMATS,
+  SessionFormat,
+} from "./session-export";
+import { readEnvFile } from "./profiles";
+import { Recipe, runRecipe } from "./recipes";
+import { logger } from "./logger";
 
-interface Config {
+export interface Config {
   email: string;
   emailPassword: string;
   loginUrl: string;
   fromEmail: string;
+  // Name of the environment preset (dev, staging, ...), shown in the logs
+  environment?: string;
+  // Accept self-signed certificates, e.g. for the local dev server
+  ignoreHTTPSErrors?: boolean;
   headless: boolean;
   devtools: boolean;
+  mailSource?: MailSourceConfig;
+  siteAdapter?: SiteAdapter;
+  userDataDir?: string;
+  // Engine, launch arguments, emulation or a CDP endpoint to attach to
+  browser?: BrowserOptions;
+  // Base32 authenticator secret for accounts with two-factor auth enforced
+  totpSecret?: string;
+  // Single-use fallback when there is no secret or the TOTP code is rejected
+  recoveryCodes?: string[];
+  // Only accept codes addressed to this exact email, +tag included, so
+  // aliases sharing an inbox never take each other's codes. Default: true
+  matchRecipient?: boolean;
+  // How long to wait for the magic code email, in ms. Default: 60000
+  codeTimeout?: number;
+  // Log in inside a browser the caller already launched (e.g. a test
+  // runner's context) instead of starting one. It is left open by close().
+  // headless, devtools, userDataDir and browser are ignored then.
+  context?: BrowserContext;
+  page?: Page;
+  // Save a trace, screenshots, HTML and console/network logs when a step fails
+  artifacts?: ArtifactOptions;
 }
 
+export interface LoginResult {
+  status: "verified" | "already-logged-in";
+  /** Page URL once logged in */
+  finalUrl: string;
+  durationMs: number;
+  /** True when the saved session was still valid and no code was needed */
+  skipped: boolean;
+}
+
+export interface SignupResult extends OnboardingResult {
+  email: string;
+  /** Expensify accountID of the new account, when the session exposes it */
+  accountID?: number;
+  login: LoginResult;
+}
+
+/**
+ * Listener signatures for AutoLogin's events, one per login phase
+ */
+export interface AutoLoginEvents {
+  navigated: (info: { url: string }) => void;
+  emailSubmitted: (info: { email: string }) => void;
+  codeReceived: (info: { code: string }) => void;
+  loggedIn: (result: LoginResult) => void;
+  /** Only emitted when someone listens, so it never throws unhandled */
+  error: (error: unknown) => void;
+}
+
+interface RetryRule {
+  retryOn: LoginErrorCode[];
+  maxRetries: number;
+}
+
+/**
+ * Which failures each state may retry, and how often. A retry always starts
+ * over from "navigating", since only a new email submit sends a new code.
+ * Rate limiting and 2FA prompts are never retried.
+ */
+const RETRY_RULES: Partial<Record<LoginState, RetryRule>> = {
+  navigating: {
+    retryOn: ["NAVIGATION_FAILED", "EMAIL_INPUT_NOT_FOUND"],
+    maxRetries: 2,
+  },
+  "awaiting-code": {
+    retryOn: ["CODE_TIMEOUT", "CODE_INPUT_NOT_FOUND"],
+    maxRetries: 1,
+  },
+  "code-entered": {
+    retryOn: ["INVALID_CODE", "EXPIRED_CODE"],
+    maxRetries: 1,
+  },
+};
+
 // Strip +tag from email (e.g., user+tag@domain.com -> user@domain.com)
-function stripEmailTag(email: string): string {
+export function stripEmailTag(email: string): string {
   return email.replace(/\+[^@]+@/, "@");
 }
 
-export class AutoLogin {
-  private emailMonitor: EmailMonitor;
+export interface AutoLogin {
+  on<E extends keyof AutoLoginEvents>(event: E, listener: AutoLoginEvents[E]): this;
+  once<E extends keyof AutoLoginEvents>(event: E, listener: AutoLoginEvents[E]): this;
+  off<E extends keyof AutoLoginEvents>(event: E, listener: AutoLoginEvents[E]): this;
+  emit<E extends keyof AutoLoginEvents>(
+    event: E,
+    ...args: Parameters<AutoLoginEvents[E]>
+  ): boolean;
+}
+
+export class AutoLogin extends EventEmitter {
+  private codeSource: CodeSource;
   private webAutomation: WebAutomation;
   private config: Config;
+  private ownsCodeSource: boolean;
+  private recoveryCodes: string[];
+  private recorder: ArtifactRecorder | null = null;
 
-  constructor(config: Config) {
+  /**
+   * Pass a codeSource to share one mail connection between several logins;
+   * it is then left connected when login() finishes.
+   */
+  constructor(config: Config, codeSource?: CodeSource) {
+    super();
     this.config = config;
+    logger.addSecret(config.emailPassword);
+    logger.addSecret(config.totpSecret);
+    logger.addSecret(config.browser?.proxy?.password);
+    config.recoveryCodes?.forEach((code) => logger.addSecret(code));
     const imapEmail = stripEmailTag(config.email);
-    this.emailMonitor = new EmailMonitor({
-      user: imapEmail,
-      password: config.emailPassword,
-      host: "imap.gmail.com",
-      port: 993,
-      tls: true,
-    });
-    this.webAutomation = new WebAutomation();
+    this.ownsCodeSource = !codeSource;
+    this.recoveryCodes = [...(config.recoveryCodes ?? [])];
+    this.codeSource =
+      codeSource ??
+      createCodeSource(config.mailSource ?? GMAIL_IMAP, {
+        user: imapEmail,
+        password: config.emailPassword,
+      });
+    this.webAutomation = new WebAutomation(config.siteAdapter);
   }
 
-  async login(): Promise<void> {
+  /**
+   * Resolves with how the login ended: "verified" after a full login, or
+   * "already-logged-in" (skipped) when the saved session was still valid.
+   * Rejects with a LoginError saying where and why it failed.
+   */
+  async login(): Promise<LoginResult> {
+    const startedAt = Date.now();
     try {
-      console.log("Starting login...\n");
-
-      await this.webAutomation.init(this.config.headless, this.config.devtools);
-      await this.webAutomation.navigateToLogin(this.config.loginUrl);
-
-      // Connect to email before login to be ready, and record timestamp before triggering email
-      await this.emailMonitor.connect();
-      const loginStartTime = new Date();
+      if (this.config.environment) {
+        logger.info(`🌍 Environment: ${this.config.environment} (${this.config.loginUrl})`);
+      }
+      logger.info("Starting login...\n");
 
-      const needsLogin = await this.webAutomation.enterEmail(this.config.email);
+      await this.openBrowser();
+      const state = await this.recorded(() => this.authenticate());
+      return this.finish(state, startedAt);
+    } catch (error) {
+      logger.error("\nLogin failed", { error: describeError(error) });
+      this.emitError(error);
+      throw error;
+    } finally {
+      if (this.ownsCodeSource) {
+        this.codeSource.disconnect();
+      }
+    }
+  }
 
-      if (!needsLogin) {
-        console.log("\nAlready logged in!\n");
-        return;
+  /**
+   * Runs the email and code flow again in the already open browser, e.g.
+   * after the session expired
+   */
+  async reauthenticate(): Promise<LoginResult> {
+    const startedAt = Date.now();
+    try {
+      const state = await this.recorded(() => this.authenticate());
+      return this.finish(state, startedAt);
+    } catch (error) {
+      logger.error("\nRe-login failed", { error: describeError(error) });
+      this.emitError(error);
+      throw error;
+    } finally {
+      if (this.ownsCodeSource) {
+        this.codeSource.disconnect();
       }
+    }
+  }
 
-      const code = await this.emailMonitor.waitForCode(
-        this.config.fromEmail,
-        60000,
-        loginStartTime
+  private async openBrowser(): Promise<void> {
+    const injected = this.config.page ?? this.config.context;
+    if (injected) {
+      await this.webAutomation.attach(injected);
+    } else {
+      await this.webAutomation.init(
+        this.config.headless,
+        this.config.devtools,
+        this.config.userDataDir,
+        this.config.ignoreHTTPSErrors,
+        this.config.browser
       );
-      console.log("");
+    }
+  }
 
-      await this.webAutomation.enterCode(code);
-      await this.webAutomation.waitForLoginSuccess();
+  /**
+   * Runs a login attempt with failure artifacts recorded, if configured
+   */
+  private async recorded<T>(attempt: () => Promise<T>): Promise<T> {
+    const context = this.webAutomation.getContext();
+    const page = this.webAutomation.getPage();
+    if (!this.config.artifacts || !context || !page) return attempt();
 
-      console.log("\nDone!\n");
-    } catch (error) {
-      console.error("\nLogin failed:", error);
-      throw error;
+    this.recorder = new ArtifactRecorder(this.config.artifacts, this.config.email);
+    await this.recorder.start(context, page);
+    let failed = true;
+    try {
+      const result = await attempt();
+      failed = false;
+      return result;
     } finally {
-      this.emailMonitor.disconnect();
+      await this.recorder.finish(failed);
+      this.recorder = null;
     }
   }
 
-  async close(): Promise<void> {
-    await this.webAutomation.close();
+  private finish(state: LoginState, startedAt: number): LoginResult {
+    const result: LoginResult = {
+      status: state === "already-logged-in" ? state : "verified",
+      finalUrl: this.webAutomation.getPage()?.url() ?? "",
+      durationMs: Date.now() - startedAt,
+      skipped: state === "already-logged-in",
+    };
+    this.emit("loggedIn", result);
+    return result;
+  }
+
+  private emitError(error: unknown): void {
+    // EventEmitter throws "error" events nobody listens to
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", error);
+    }
+  }
+
+  /**
+   * Opens the saved browser profile and signs out. Resolves false if it
+   * wasn't logged in to begin with.
+   */
+  async logout(): Promise<boolean> {
+    await this.openBrowser();
+    await this.webAutomation.navigateToLogin(this.config.loginUrl);
+    if (await this.webAutomation.isOnLoginScreen()) {
+      logger.info("Not logged in");
+      return false;
+    }
+    if (!(await this.webAutomation.logout())) {
+      throw new Error("Could not find a logout button");
+    }
+    return true;
+  }
+
+  async isSessionActive(): Promise<boolean> {
+    return !(await this.webAutomation.isOnLoginScreen());
   }
-}
 
-async function loadEnv() {
-  // @ts-ignore
-  if (typeof Bun !== "undefined") {
-    // @ts-ignore
-    const envFile = Bun.file(".env");
-    if (await envFile.exists()) {
-      const text = await envFile.text();
-      for (const line of text.split("\n")) {
-        const trimmed = line.trim();
-        if (trimmed && !trimmed.startsWith("#") && trimmed.includes("=")) {
-          const [key, ...valueParts] = trimmed.split("=");
-          const value = valueParts.join("=").trim();
-          if (key && value) {
-            process.env[key] = value;
+  private async authenticate(): Promise<LoginState> {
+    let state: LoginState = "navigating";
+    let loginStartTime = new Date();
+    let code = "";
+    const retries: Partial<Record<LoginState, number>> = {};
+
+    while (state !== "verified" && state !== "already-logged-in") {
+      try {
+        switch (state) {
+          case "navigating": {
+            await this.webAutomation.navigateToLogin(this.config.loginUrl);
+            this.emit("navigated", {
+              url: this.webAutomation.getPage()?.url() ?? this.config.loginUrl,
+            });
+
+            // Connect to email before login to be ready, and record timestamp before triggering email
+            await this.codeSource.connect().catch((error) => {
+              throw new LoginError("MAIL_ERROR", errorMessage(error));
+            });
+            loginStartTime = new Date();
+
+            const needsLogin = await this.webAutomation.enterEmail(
+              this.config.email
+            );
+            if (needsLogin) {
+              this.emit("emailSubmitted", { email: this.config.email });
+            }
+            state = needsLogin ? "email-entered" : "already-logged-in";
+            break;
           }
+
+          case "email-entered":
+            // Rate limiting shows up right after the email is submitted
+            await this.webAutomation.throwIfLoginProblem();
+            state = "awaiting-code";
+            break;
+
+          case "awaiting-code":
+            code = await this.codeSource
+              .waitForCode(
+                this.config.fromEmail,
+                this.config.codeTimeout ?? 60000,
+                loginStartTime,
+                this.config.matchRecipient === false
+                  ? undefined
+                  : this.config.email
+              )
+              .catch((error) => {
+                const message = errorMessage(error);
+                throw new LoginError(
+                  message.includes("Timeout") ? "CODE_TIMEOUT" : "MAIL_ERROR",
+                  message
+                );
+              });
+            logger.addSecret(code);
+            this.emit("codeReceived", { code });
+
+            await this.webAutomation.enterCode(code);
+            state = "code-entered";
+            break;
+
+          case "code-entered":
+            await this.webAutomation.waitForLoginSuccess();
+            state = "verified";
+            break;
+
+          case "two-factor":
+            await this.completeTwoFactor();
+            state = "verified";
+            break;
+        }
+      } catch (error) {
+        if (
+          isLoginError(error) &&
+          error.code === "TWO_FACTOR_REQUIRED" &&
+          state === "code-entered" &&
+          (this.config.totpSecret || this.recoveryCodes.length > 0)
+        ) {
+          logger.info("🔐 Two-factor authentication required");
+          state = "two-factor";
+          continue;
+        }
+
+        await this.recorder?.captureFailure(state, error);
+        if (!isLoginError(error)) throw error;
+        error.state ??= state;
+
+        const rule = RETRY_RULES[state];
+        const used = retries[state] ?? 0;
+        if (!rule?.retryOn.includes(error.code) || used >= rule.maxRetries) {
+          throw error;
         }
+
+        retries[state] = used + 1;
+        logger.info(
+          `🔁 ${error.code} while ${state}, starting over (retry ${used + 1}/${rule.maxRetries})`
+        );
+        state = "navigating";
       }
     }
+
+    logger.info(
+      state === "already-logged-in" ? "\nAlready logged in!\n" : "\nDone!\n"
+    );
+    return state;
   }
-}
 
-async function main() {
-  await loadEnv();
+  /**
+   * Answers the authenticator prompt with a locally generated TOTP code,
+   * trying the next 30s window once if it's rejected, then falls back to a
+   * recovery code
+   */
+  private async completeTwoFactor(): Promise<void> {
+    const secret = this.config.totpSecret;
 
-  const email = process.env.EMAIL;
-  const password = process.env.APP_PASSWORD?.replace(/\s/g, "");
-  const loginUrl = process.env.LOGIN_URL || "https://new.expensify.com/";
-  const fromEmail = process.env.FROM_EMAIL || "concierge@expensify.com";
-  const headless = process.env.HEADLESS === "true";
-  const devtools = process.env.DEVTOOLS === "true";
+    for (let attempt = 0; secret && attempt < 2; attempt++) {
+      // Don't submit a code that expires before Expensify checks it
+      if (attempt > 0 || msUntilNextWindow() < 3000) {
+        await new Promise((r) => setTimeout(r, msUntilNextWindow() + 500));
+      }
+
+      try {
+        await this.webAutomation.enterTwoFactorCode(totp(secret));
+        await this.webAutomation.waitForLoginSuccess(undefined, [
+          "TWO_FACTOR_REQUIRED",
+        ]);
+        return;
+      } catch (error) {
+        if (!isLoginError(error) || error.code !== "INVALID_CODE") throw error;
+        logger.warn("⚠️  Authenticator code rejected");
+      }
+    }
+
+    const recoveryCode = this.recoveryCodes.shift();
+    if (!recoveryCode) {
+      throw new LoginError(
+        "TWO_FACTOR_REQUIRED",
+        secret
+          ? "Authenticator codes were rejected and no recovery codes are configured"
+          : "Account requires a two-factor authentication code"
+      );
+    }
 
-  if (!email || !password) {
-    console.error("Missing EMAIL or APP_PASSWORD in .env");
-    process.exit(1);
+    logger.warn(
+      "⚠️  Using a recovery code. Each works only once: remove it from your config"
+    );
+    await this.webAutomation.enterTwoFactorCode(recoveryCode, true);
+    await this.webAutomation.waitForLoginSuccess(undefined, [
+      "TWO_FACTOR_REQUIRED",
+    ]);
   }
 
-  const autoLogin = new AutoLogin({
-    email,
-    emailPassword: password,
-    loginUrl,
-    fromEmail,
-    headless,
-    devtools,
-  });
+  /**
+   * Writes the current session (storageState, cookie jar, authToken) so
+   * other tools can reuse it without going through the magic-code flow
+   */
+  async exportSession(
+    outDir: string,
+    formats: SessionFormat[] = SESSION_FORMATS
+  ): Promise<string[]> {
+    const context = this.webAutomation.getContext();
+    const page = this.webAutomation.getPage();
+    if (!context || !page) throw new Error("Browser not initialized");
+    return exportSession(context, page, outDir, formats);
+  }
 
-  try {
-    await autoLogin.login();
+  /**
+   * Creates the account for config.email, e.g. a fresh +tag alias. The
+   * magic code validates the new address just like a login; the onboarding
+   * screens that follow are filled from `details`. For an address that
+   * already has an account this is a plain login and `onboarded` is false.
+   */
+  async signup(details: OnboardingDetails): Promise<SignupResult> {
+    logger.info(`🆕 Signing up ${this.config.email}`);
+    const login = await this.login();
+    const page = this.webAutomation.getPage()!;
 
-    console.log("Browser open. Press Ctrl+C to exit.\n");
+    if (login.skipped) {
+      const signedIn = (await readExpensifyAuth(page))?.email;
+      if (signedIn && signedIn.toLowerCase() !== this.config.email.toLowerCase()) {
+        throw new Error(
+          `The browser profile is already signed in as ${signedIn}; sign up with a fresh profile`
+        );
+      }
+    }
 
-    process.on("SIGINT", async () => {
-      console.log("\nClosing...");
-      await autoLogin.close();
-      process.exit(0);
+    const onboarding = await this.recorded(async () => {
+      try {
+        return await completeOnboarding(
+          page,
+          this.config.siteAdapter ?? NEWDOT,
+          details,
+          this.config.loginUrl
+        );
+      } catch (error) {
+        await this.recorder?.captureFailure("onboarding", error);
+        throw error;
+      }
     });
 
-    await new Promise(() => {});
-  } catch {
-    await autoLogin.close();
-    process.exit(1);
+    const auth = await readExpensifyAuth(page);
+    const result: SignupResult = {
+      email: this.config.email,
+      accountID: auth?.accountID,
+      ...onboarding,
+      login,
+    };
+    logger.info(
+      `✅ Account ${result.email}${result.accountID ? ` (accountID ${result.accountID})` : ""}${
+        result.workspaceID ? `, workspace ${result.workspaceName ?? ""} (${result.workspaceID})` : ""
+      }`
+    );
+    return result;
+  }
+
+  /**
+   * Runs post-login steps on the logged-in page. Failed steps get the same
+   * artifacts as failed login steps.
+   */
+  async runRecipe(recipe: Recipe): Promise<void> {
+    const page = this.webAutomation.getPage();
+    if (!page) throw new Error("Browser not initialized");
+    await this.recorded(() =>
+      runRecipe(page, recipe, {
+        baseUrl: this.config.loginUrl,
+        site: this.config.siteAdapter?.base ?? this.config.siteAdapter?.name,
+        onFailure: async (step, error) => {
+          await this.recorder?.captureFailure(step, error);
+        },
+      })
+    );
+  }
+
+  /**
+   * The current session in one export format, without writing a file
+   */
+  async readSession(format: SessionFormat): Promise<string | null> {
+    const context = this.webAutomation.getContext();
+    const page = this.webAutomation.getPage();
+    if (!context || !page) throw new Error("Browser not initialized");
+    return serializeSession(context, page, format);
+  }
+
+  /** Whether login() got as far as opening the browser */
+  isBrowserOpen(): boolean {
+    return !!this.webAutomation.getPage();
+  }
+
+  async close(): Promise<void> {
+    await this.webAutomation.close();
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// "[CODE_TIMEOUT] ... (while awaiting-code)" for classified failures
+export function describeError(error: unknown): string {
+  if (isLoginError(error)) {
+    return `[${error.code}] ${error.message}${
+      error.state ? ` (while ${error.state})` : ""
+    }`;
+  }
+  return errorMessage(error);
+}
+
+export async function loadEnv() {
+  const env = await readEnvFile(".env");
+  for (const [key, value] of Object.entries(env ?? {})) {
+    process.env[key] = value;
   }
 }
 
-// @ts-ignore
-if (import.meta.main) {
-  main();
+// Reads "--name value" or "--name=value" from argv
+export function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index !== -1) return args[index + 1];
+  const inline = args.find((arg) => arg.startsWith(`--${name}=`));
+  return inline?.slice(name.length + 3);
 }
@@ -0,0 +1,265 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  AutoLogin,
+  describeError,
+  getFlag,
+  loadEnv,
+  stripEmailTag,
+} from "./auto-login";
+import { BrowserOptions, browserOptionsFromEnv } from "./browser-options";
+import { loadCodeRules } from "./code-rules";
+import { CodeSource } from "./code-source";
+import { findCredential } from "./credentials";
+import { adapterForEnvironment, Environment, getEnvironment } from "./environments";
+import { logger, loggerOptionsFromEnv } from "./logger";
+import { createCodeSource, mailSourceFromEnv } from "./mail-sources";
+import { loadSiteAdapter, SiteAdapter } from "./site-adapters";
+
+interface BatchOptions {
+  accounts: string[];
+  appPassword: string;
+  loginUrl: string;
+  fromEmail: string;
+  environment?: Environment;
+  browser?: BrowserOptions;
+  headless: boolean;
+  concurrency: number;
+  codeSource: CodeSource;
+  siteAdapter?: SiteAdapter;
+}
+
+export interface BatchResult {
+  email: string;
+  status: "success" | "failed";
+  durationMs: number;
+  error?: string;
+}
+
+// Filesystem-safe directory per account, e.g. browser-data/batch/user+1@gmail.com
+function batchDataDir(email: string): string {
+  return join("browser-data", "batch", email.replace(/[^\w.+@-]/g, "_"));
+}
+
+/**
+ * Drops repeated addresses (case-insensitive), keeping the first. Two logins
+ * for one address would fight over the same browser data directory.
+ */
+function uniqueAccounts(accounts: string[]): string[] {
+  const seen = new Set<string>();
+  return accounts.filter((email) => {
+    const key = email.toLowerCase();
+    if (seen.has(key)) {
+      logger.warn(`⚠️  Skipping duplicate account ${email}`);
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Expands "user+{n}@gmail.com" into count addresses starting at start
+ */
+export function expandPattern(
+  pattern: string,
+  count: number,
+  start: number = 1
+): string[] {
+  if (!pattern.includes("{n}")) {
+    throw new Error(`Pattern must contain {n}: ${pattern}`);
+  }
+  return Array.from({ length: count }, (_, i) =>
+    pattern.replace("{n}", String(start + i))
+  );
+}
+
+/**
+ * Logs every account in its own browser context, at most `concurrency` at a
+ * time. All logins share one code source, and each only accepts codes sent
+ * to its own address.
+ */
+export async function runBatch(options: BatchOptions): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+  const accounts = uniqueAccounts(options.accounts);
+  const queue = [...accounts];
+
+  await options.codeSource.connect();
+
+  const worker = async () => {
+    let email: string | undefined;
+    while ((email = queue.shift())) {
+      const startTime = Date.now();
+      const autoLogin = new AutoLogin(
+        {
+          email,
+          emailPassword: options.appPassword,
+          loginUrl: options.loginUrl,
+          fromEmail: options.fromEmail,
+          headless: options.headless,
+          devtools: false,
+          siteAdapter: options.siteAdapter,
+          environment: options.environment?.name,
+          ignoreHTTPSErrors: options.environment?.ignoreHTTPSErrors,
+          userDataDir: batchDataDir(email),
+          browser: options.browser,
+        },
+        options.codeSource
+      );
+
+      try {
+        await autoLogin.login();
+        results.push({
+          email,
+          status: "success",
+          durationMs: Date.now() - startTime,
+        });
+      } catch (error) {
+        results.push({
+          email,
+          status: "failed",
+          durationMs: Date.now() - startTime,
+          error: describeError(error),
+        });
+      } finally {
+        await autoLogin.close().catch(() => {});
+      }
+    }
+  };
+
+  const workerCount = Math.min(options.concurrency, accounts.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  // Report in input order rather than completion order
+  return accounts.map(
+    (email) => results.find((r) => r.email === email)!
+  );
+}
+
+export function printSummary(results: BatchResult[]): void {
+  const width = Math.max(7, ...results.map((r) => r.email.length)) + 2;
+
+  console.log("\n" + "Account".padEnd(width) + "Status     Time     Error");
+  console.log("-".repeat(width + 40));
+  for (const result of results) {
+    const status = result.status === "success" ? "✅ ok" : "❌ failed";
+    const time = `${(result.durationMs / 1000).toFixed(1)}s`;
+    console.log(
+      (
+        result.email.padEnd(width) +
+        status.padEnd(11) +
+        time.padEnd(9) +
+        (result.error ?? "")
+      ).trimEnd()
+    );
+  }
+
+  const succeeded = results.filter((r) => r.status === "success").length;
+  console.log(`\n${succeeded}/${results.length} logins succeeded\n`);
+}
+
+async function main() {
+  await loadEnv();
+  logger.configure(loggerOptionsFromEnv());
+
+  const args = process.argv.slice(2);
+  const concurrency = Number(getFlag(args, "concurrency") || 4);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error(
+      `Invalid --concurrency "${getFlag(args, "concurrency")}", expected a positive whole number`
+    );
+    process.exit(1);
+  }
+  const accountsFile = getFlag(args, "accounts");
+  const pattern = getFlag(args, "pattern");
+
+  let accounts: string[];
+  if (accountsFile) {
+    accounts = (await readFile(accountsFile, "utf8"))
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"));
+  } else if (pattern) {
+    accounts = expandPattern(
+      pattern,
+      Number(getFlag(args, "count") || 10),
+      Number(getFlag(args, "start") || 1)
+    );
+  } else {
+    console.error(
+      "Usage: bun batch.ts (--accounts <file> | --pattern user+{n}@gmail.com --count 10 [--start 1]) [--concurrency 4]"
+    );
+    process.exit(1);
+  }
+
+  if (accounts.length === 0) {
+    console.error("No accounts given");
+    process.exit(1);
+  }
+
+  const password = (await findCredential(accounts[0]))?.secret;
+  if (!password) {
+    console.error(
+      `No app password for ${stripEmailTag(accounts[0])}: set APP_PASSWORD in .env or run \`bun run credentials set ${stripEmailTag(accounts[0])}\``
+    );
+    process.exit(1);
+  }
+
+  let environment: Environment;
+  let browser: BrowserOptions;
+  try {
+    environment = getEnvironment(process.env.ENVIRONMENT || undefined);
+    browser = browserOptionsFromEnv();
+    if (browser.cdpUrl) {
+      // Every account needs its own browser profile
+      throw new Error("Batch logins launch their own browsers; unset BROWSER_CDP_URL");
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+
+  // One inbox receives every alias, so log in as the untagged address
+  const mailSource = {
+    ...mailSourceFromEnv(),
+    rules: await loadCodeRules(process.env.CODE_RULES_FILE),
+  };
+  const codeSource = createCodeSource(mailSource, {
+    user: stripEmailTag(accounts[0]),
+    password,
+  });
+
+  let exitCode = 1;
+  try {
+    const results = await runBatch({
+      accounts,
+      appPassword: password,
+      loginUrl: process.env.LOGIN_URL || environment.loginUrl,
+      fromEmail: process.env.FROM_EMAIL || environment.fromEmail,
+      environment,
+      browser,
+      headless: process.env.HEADLESS !== "false",
+      concurrency,
+      codeSource,
+      siteAdapter: adapterForEnvironment(
+        await loadSiteAdapter(
+          process.env.SITE_ADAPTER || environment.siteAdapter,
+          process.env.SITE_ADAPTER_FILE
+        ),
+        environment
+      ),
+    });
+    printSummary(results);
+    exitCode = results.every((r) => r.status === "success") ? 0 : 1;
+  } catch (error) {
+    logger.error("\nBatch failed", { error });
+  } finally {
+    codeSource.disconnect();
+  }
+  process.exit(exitCode);
+}
+
+// @ts-ignore
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,105 @@
+import { devices } from "playwright";
+
+export type BrowserEngine = "chromium" | "firefox" | "webkit";
+
+export const BROWSER_ENGINES: BrowserEngine[] = ["chromium", "firefox", "webkit"];
+
+/**
+ * How the login browser is started. Everything is optional; the default is
+ * a maximized Chromium window with slowMo 100.
+ */
+export interface BrowserOptions {
+  /** Default: chromium */
+  engine?: BrowserEngine;
+  /** Browser binary to run instead of Playwright's own build */
+  executablePath?: string;
+  /** Chromium channel, e.g. "chrome" or "msedge" */
+  channel?: string;
+  /** Extra command line arguments for the browser */
+  args?: string[];
+  /** Delay between actions in ms. Default: 100 */
+  slowMo?: number;
+  /** Fixed viewport. Default: the window size (maximized on Chromium) */
+  viewport?: { width: number; height: number };
+  locale?: string;
+  timezoneId?: string;
+  proxy?: { server: string; bypass?: string; username?: string; password?: string };
+  userAgent?: string;
+  /** Playwright device to emulate for mobile web, e.g. "iPhone 13" */
+  device?: string;
+  /**
+   * Attach to a running Chromium (e.g. http://localhost:9222) instead of
+   * launching one. The browser is left running when the login is done.
+   */
+  cdpUrl?: string;
+}
+
+function parseViewport(value: string): { width: number; height: number } {
+  const match = value.match(/^(\d+)x(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid viewport "${value}" (expected WIDTHxHEIGHT, e.g. 1280x720)`);
+  }
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+/**
+ * Checks options written by hand in profiles.json or passed by a caller
+ */
+export function validateBrowserOptions(options: BrowserOptions): BrowserOptions {
+  if (options.engine && !BROWSER_ENGINES.includes(options.engine)) {
+    throw new Error(
+      `Unknown browser "${options.engine}" (expected ${BROWSER_ENGINES.join(", ")})`
+    );
+  }
+  if (options.device && !devices[options.device]) {
+    throw new Error(
+      `Unknown device "${options.device}" (see Playwright's device list, e.g. "iPhone 13", "Pixel 7")`
+    );
+  }
+  if (options.cdpUrl && (options.engine ?? "chromium") !== "chromium") {
+    throw new Error(`Attaching over CDP only works with Chromium, not ${options.engine}`);
+  }
+  if (options.slowMo !== undefined && !(options.slowMo >= 0)) {
+    throw new Error(`Invalid slowMo "${options.slowMo}"`);
+  }
+  return options;
+}
+
+/**
+ * Reads BROWSER_ENGINE and the other BROWSER_* settings. Unset keys are left
+ * out, so the result can be spread over other options.
+ */
+export function browserOptionsFromEnv(
+  env: NodeJS.ProcessEnv | Record<string, string> = process.env
+): BrowserOptions {
+  const options: BrowserOptions = {};
+  if (env.BROWSER_ENGINE) options.engine = env.BROWSER_ENGINE as BrowserEngine;
+  if (env.BROWSER_EXECUTABLE) options.executablePath = env.BROWSER_EXECUTABLE;
+  if (env.BROWSER_CHANNEL) options.channel = env.BROWSER_CHANNEL;
+  // Space separated, since Chromium flags like --window-size=1280,720 contain commas
+  if (env.BROWSER_ARGS) options.args = env.BROWSER_ARGS.split(/\s+/).filter(Boolean);
+  if (env.BROWSER_SLOW_MO) options.slowMo = Number(env.BROWSER_SLOW_MO);
+  if (env.BROWSER_VIEWPORT) options.viewport = parseViewport(env.BROWSER_VIEWPORT);
+  if (env.BROWSER_LOCALE) options.locale = env.BROWSER_LOCALE;
+  if (env.BROWSER_TIMEZONE) options.timezoneId = env.BROWSER_TIMEZONE;
+  if (env.BROWSER_PROXY) {
+    options.proxy = {
+      server: env.BROWSER_PROXY,
+      bypass: env.BROWSER_PROXY_BYPASS,
+      username: env.BROWSER_PROXY_USERNAME,
+      password: env.BROWSER_PROXY_PASSWORD,
+    };
+  }
+  if (env.BROWSER_USER_AGENT) options.userAgent = env.BROWSER_USER_AGENT;
+  if (env.BROWSER_DEVICE) options.device = env.BROWSER_DEVICE;
+  if (env.BROWSER_CDP_URL) options.cdpUrl = env.BROWSER_CDP_URL;
+  return validateBrowserOptions(options);
+}
+
+/**
+ * Where an engine keeps its profile. Engines can't read each other's, so
+ * only Chromium uses userDataDir itself.
+ */
+export function engineDataDir(userDataDir: string, engine: BrowserEngine = "chromium"): string {
+  return engine === "chromium" ? userDataDir : `${userDataDir}-${engine}`;
+}
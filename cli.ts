@@ -0,0 +1,929 @@
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  Alias,
+  DEFAULT_ALIAS_PATTERN,
+  findAlias,
+  generateAliases,
+  readAliases,
+  recordAliasLogin,
+  retireAliases,
+} from "./aliases";
+import { AutoLogin, describeError, loadEnv, stripEmailTag } from "./auto-login";
+import {
+  ArtifactOptions,
+  artifactOptionsFromEnv,
+  parseTraceMode,
+  TraceMode,
+} from "./artifacts";
+import { BROWSER_ENGINES, BrowserEngine, validateBrowserOptions } from "./browser-options";
+import { loadCodeRules } from "./code-rules";
+import { CodeSource } from "./code-source";
+import { LoginDaemon } from "./daemon";
+import { DoctorReport, formatReport, runDoctor } from "./doctor";
+import {
+  adapterForEnvironment,
+  DEFAULT_ENVIRONMENT,
+  ENVIRONMENTS,
+} from "./environments";
+import { EmailMonitor } from "./email-monitor";
+import { SessionKeeper } from "./keep-alive";
+import { logger, loggerOptionsFromEnv } from "./logger";
+import { isLoginError } from "./login-errors";
+import { ONBOARDING_PURPOSES, OnboardingPurpose } from "./onboarding";
+import {
+  createCodeSource,
+  mailSourceFromEnv,
+  MailSourceConfig,
+  parseCleanupPolicy,
+} from "./mail-sources";
+import {
+  listProfiles,
+  loadProfile,
+  readLastLogin,
+  recordLogin,
+  Profile,
+} from "./profiles";
+import { loadRecipe, Recipe } from "./recipes";
+import { parseSessionFormats, SESSION_FORMATS } from "./session-export";
+import { loadSiteAdapter, SiteAdapter } from "./site-adapters";
+
+/**
+ * Process exit codes, so scripts can tell failures apart
+ */
+export const EXIT = {
+  OK: 0,
+  /** Login or logout did not complete, or a doctor check failed */
+  FAILED: 1,
+  /** Unknown command or bad flags */
+  USAGE: 2,
+  /** .env, profile, site adapter or mail source settings are invalid */
+  CONFIG: 3,
+  /** Could not read mail, or no magic code arrived in time */
+  MAIL: 4,
+} as const;
+
+class UsageError extends Error {}
+class ConfigError extends Error {}
+
+const COMMON_OPTIONS = {
+  profile: { type: "string" },
+  env: { type: "string" },
+  site: { type: "string" },
+  browser: { type: "string" },
+  cdp: { type: "string" },
+  email: { type: "string" },
+  url: { type: "string" },
+  headless: { type: "boolean" },
+  headed: { type: "boolean" },
+  timeout: { type: "string" },
+  verbose: { type: "boolean", short: "v" },
+  quiet: { type: "boolean", short: "q" },
+  "log-format": { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+const COMMON_HELP = `
+  --profile <name>    Use a profile from profiles.json or .env.<name>
+  --email <address>   Account to log in as (overrides EMAIL)
+  --env <name>        Environment preset: ${Object.keys(ENVIRONMENTS).join(", ")} (overrides ENVIRONMENT)
+  --url <url>         Login page (overrides LOGIN_URL and the preset's URL)
+  --site <adapter>    Login page layout: newdot or olddot (overrides SITE_ADAPTER)
+  --browser <engine>  ${BROWSER_ENGINES.join(", ")} (overrides BROWSER_ENGINE, default chromium)
+  --cdp <url>         Attach to a running Chromium, e.g. http://localhost:9222 (overrides BROWSER_CDP_URL)
+  --headless          Run the browser without a window (overrides HEADLESS)
+  --headed            Show the browser window (overrides HEADLESS)
+  --timeout <sec>     How long to wait for the magic code (overrides CODE_TIMEOUT, default 60)
+  -v, --verbose       Log debug details (overrides LOG_LEVEL)
+  -q, --quiet         Log only warnings and errors (overrides LOG_LEVEL)
+  --log-format <fmt>  text or json (JSON lines, for CI; overrides LOG_FORMAT)
+  -h, --help          Show help`;
+
+const ARTIFACT_OPTIONS = {
+  artifacts: { type: "string" },
+  trace: { type: "string" },
+} as const;
+
+const ARTIFACT_HELP = `
+  --artifacts <dir>   Save trace, screenshot, HTML and console/network logs of failed
+                      logins under <dir> (overrides ARTIFACTS_DIR)
+  --trace <mode>      retain-on-failure (default), on or off (overrides TRACE)`;
+
+interface Command {
+  summary: string;
+  usage: string;
+  options: Record<string, { type: "string" | "boolean"; short?: string }>;
+  /** Accepts arguments besides flags (e.g. a subcommand) */
+  positionals?: boolean;
+  run(
+    values: Record<string, string | boolean | undefined>,
+    positionals: string[]
+  ): Promise<number>;
+}
+
+/**
+ * Everything a command needs, resolved with flags over .env over defaults
+ */
+interface Settings {
+  profile: Profile;
+  mailSource: MailSourceConfig;
+  siteAdapter: SiteAdapter;
+  headless: boolean;
+  devtools: boolean;
+  codeTimeout: number;
+  artifacts?: ArtifactOptions;
+}
+
+async function resolveSettings(
+  values: Record<string, string | boolean | undefined>
+): Promise<Settings> {
+  const timeout = Number(values.timeout ?? (process.env.CODE_TIMEOUT || 60));
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    throw values.timeout !== undefined
+      ? new UsageError(`Invalid --timeout "${values.timeout}", expected seconds`)
+      : new ConfigError(`Invalid CODE_TIMEOUT "${process.env.CODE_TIMEOUT}", expected seconds`);
+  }
+
+  if (values.env && !ENVIRONMENTS[values.env as string]) {
+    throw new UsageError(
+      `Unknown --env "${values.env}" (expected ${Object.keys(ENVIRONMENTS).join(", ")})`
+    );
+  }
+
+  if (values.browser && !BROWSER_ENGINES.includes(values.browser as BrowserEngine)) {
+    throw new UsageError(
+      `Unknown --browser "${values.browser}" (expected ${BROWSER_ENGINES.join(", ")})`
+    );
+  }
+
+  let trace;
+  try {
+    trace = parseTraceMode(values.trace as string | undefined);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  try {
+    let profile = await loadProfile(values.profile as string | undefined, {
+      email: values.email as string | undefined,
+      loginUrl: values.url as string | undefined,
+      environment: values.env as string | undefined,
+    });
+    // A registered alias logs in with its own browser profile
+    const alias = values.profile ? null : await findAlias(profile.email);
+    if (alias) {
+      if (alias.retiredAt) {
+        logger.warn(`⚠️  ${alias.email} was retired on ${alias.retiredAt.slice(0, 10)}`);
+      }
+      profile = { ...profile, userDataDir: alias.userDataDir };
+    }
+    if (values.browser || values.cdp) {
+      profile = {
+        ...profile,
+        browser: validateBrowserOptions({
+          ...profile.browser,
+          ...(values.browser ? { engine: values.browser as BrowserEngine } : {}),
+          ...(values.cdp ? { cdpUrl: values.cdp as string } : {}),
+        }),
+      };
+    }
+    return {
+      profile,
+      mailSource: {
+        ...mailSourceFromEnv(),
+        rules: await loadCodeRules(process.env.CODE_RULES_FILE),
+      },
+      siteAdapter: adapterForEnvironment(
+        await loadSiteAdapter(
+          (values.site as string | undefined) ||
+            (values.env ? undefined : process.env.SITE_ADAPTER) ||
+            profile.environment.siteAdapter,
+          process.env.SITE_ADAPTER_FILE
+        ),
+        profile.environment
+      ),
+      headless: values.headless
+        ? true
+        : values.headed
+          ? false
+          : process.env.HEADLESS === "true",
+      devtools: process.env.DEVTOOLS === "true",
+      codeTimeout: timeout * 1000,
+      artifacts: resolveArtifacts(values, trace),
+    };
+  } catch (error) {
+    throw new ConfigError((error as Error).message);
+  }
+}
+
+function resolveArtifacts(
+  values: Record<string, string | boolean | undefined>,
+  trace: TraceMode | undefined
+): ArtifactOptions | undefined {
+  const fromEnv = artifactOptionsFromEnv();
+  const dir = (values.artifacts as string | undefined) || fromEnv?.dir;
+  if (!dir) return undefined;
+  return { ...fromEnv, dir, ...(trace ? { trace } : {}) };
+}
+
+function createAutoLogin(settings: Settings, codeSource?: CodeSource): AutoLogin {
+  const { profile } = settings;
+  if (profile.name !== "default") {
+    logger.info(`👤 Using profile: ${profile.name}`);
+  }
+
+  return new AutoLogin(
+    {
+      email: profile.email,
+      emailPassword: profile.appPassword,
+      loginUrl: profile.loginUrl,
+      fromEmail: profile.fromEmail,
+      environment: profile.environment.name,
+      ignoreHTTPSErrors: profile.environment.ignoreHTTPSErrors,
+      headless: settings.headless,
+      devtools: settings.devtools,
+      mailSource: settings.mailSource,
+      siteAdapter: settings.siteAdapter,
+      userDataDir: profile.userDataDir,
+      browser: profile.browser,
+      totpSecret: profile.totpSecret,
+      recoveryCodes: profile.recoveryCodes,
+      codeTimeout: settings.codeTimeout,
+      artifacts: settings.artifacts,
+    },
+    codeSource
+  );
+}
+
+/**
+ * Saves how a login ended next to the browser profile and, for registered
+ * aliases, in the alias registry
+ */
+async function recordResult(
+  profile: Profile,
+  status: "success" | "failed",
+  error?: unknown
+): Promise<void> {
+  await recordAliasLogin(profile.email, await recordLogin(profile, status, error));
+}
+
+function exitCodeFor(error: unknown): number {
+  if (error instanceof UsageError) return EXIT.USAGE;
+  if (error instanceof ConfigError) return EXIT.CONFIG;
+  if (
+    isLoginError(error) &&
+    (error.code === "MAIL_ERROR" || error.code === "CODE_TIMEOUT")
+  ) {
+    return EXIT.MAIL;
+  }
+  return EXIT.FAILED;
+}
+
+const COMMANDS: Record<string, Command> = {
+  login: {
+    summary: "Log in and keep the browser open (headless runs exit once logged in)",
+    usage: `login [options]
+${COMMON_HELP}${ARTIFACT_HELP}
+  --recipe <file>         Steps to run once logged in: YAML, JSON or a TS module
+                          (overrides RECIPE)
+  --keep-alive            Re-login whenever the session expires
+  --check-interval <sec>  How often --keep-alive checks the session (default 60)`,
+    options: {
+      ...COMMON_OPTIONS,
+      ...ARTIFACT_OPTIONS,
+      recipe: { type: "string" },
+      "keep-alive": { type: "boolean" },
+      "check-interval": { type: "string" },
+    },
+    async run(values) {
+      const checkInterval = Number(values["check-interval"] ?? 60);
+      if (!Number.isFinite(checkInterval) || checkInterval <= 0) {
+        throw new UsageError(
+          `Invalid --check-interval "${values["check-interval"]}", expected seconds`
+        );
+      }
+      const settings = await resolveSettings(values);
+      const recipeFile = (values.recipe as string | undefined) || process.env.RECIPE;
+      let recipe: Recipe | undefined;
+      if (recipeFile) {
+        try {
+          recipe = await loadRecipe(recipeFile);
+        } catch (error) {
+          throw new ConfigError((error as Error).message);
+        }
+      }
+      const autoLogin = createAutoLogin(settings);
+
+      try {
+        await autoLogin.login();
+        await recordResult(settings.profile, "success");
+      } catch (error) {
+        await recordResult(settings.profile, "failed", error).catch(() => {});
+        await autoLogin.close();
+        return exitCodeFor(error);
+      }
+
+      if (recipe) {
+        try {
+          await autoLogin.runRecipe(recipe);
+        } catch (error) {
+          logger.error("Recipe failed", { error: describeError(error) });
+          await autoLogin.close();
+          return EXIT.FAILED;
+        }
+      }
+
+      if (settings.headless && !values["keep-alive"]) {
+        await autoLogin.close();
+        return EXIT.OK;
+      }
+
+      const keeper = values["keep-alive"]
+        ? new SessionKeeper(autoLogin, {
+            interval: checkInterval * 1000,
+          })
+        : null;
+      keeper?.start();
+
+      logger.info("Browser open. Press Ctrl+C to exit.\n");
+
+      process.on("SIGINT", async () => {
+        logger.info("\nClosing...");
+        keeper?.stop();
+        await autoLogin.close();
+        process.exit(EXIT.OK);
+      });
+
+      return new Promise(() => {});
+    },
+  },
+
+  logout: {
+    summary: "Sign out of the saved browser profile",
+    usage: `logout [options]
+${COMMON_HELP}`,
+    options: COMMON_OPTIONS,
+    async run(values) {
+      const autoLogin = createAutoLogin(await resolveSettings(values));
+      try {
+        await autoLogin.logout();
+        return EXIT.OK;
+      } catch (error) {
+        logger.error("Logout failed", { error: describeError(error) });
+        return EXIT.FAILED;
+      } finally {
+        await autoLogin.close();
+      }
+    },
+  },
+
+  signup: {
+    summary: "Create a new account (e.g. a +tag alias) and fill its onboarding",
+    usage: `signup --email <new address> [options]
+${COMMON_HELP}${ARTIFACT_HELP}
+  --first-name <name>  Onboarding first name (overrides SIGNUP_FIRST_NAME, default Test)
+  --last-name <name>   Onboarding last name (overrides SIGNUP_LAST_NAME, default User)
+  --purpose <purpose>  ${ONBOARDING_PURPOSES.join(", ")} (overrides SIGNUP_PURPOSE,
+                       default manage-team, which creates a workspace)
+  --workspace <name>   Name for the account's workspace, created if needed
+                       (overrides SIGNUP_WORKSPACE)
+  --json               Print the account and workspace IDs as JSON
+
+Without --profile, the new session is saved in browser-data/<email>.`,
+    options: {
+      ...COMMON_OPTIONS,
+      ...ARTIFACT_OPTIONS,
+      "first-name": { type: "string" },
+      "last-name": { type: "string" },
+      purpose: { type: "string" },
+      workspace: { type: "string" },
+      json: { type: "boolean" },
+    },
+    async run(values) {
+      const purpose =
+        (values.purpose as string | undefined) || process.env.SIGNUP_PURPOSE || "manage-team";
+      if (!ONBOARDING_PURPOSES.includes(purpose as OnboardingPurpose)) {
+        throw new UsageError(
+          `Invalid --purpose "${purpose}" (expected ${ONBOARDING_PURPOSES.join(", ")})`
+        );
+      }
+      if (values.json) {
+        // Keep stdout for the result alone
+        logger.configure({ stream: "stderr" });
+      }
+
+      const settings = await resolveSettings(values);
+      // Keep the new account's session apart from the default one
+      const profile = {
+        ...settings.profile,
+        userDataDir:
+          settings.profile.name === "default"
+            ? join("browser-data", settings.profile.email)
+            : settings.profile.userDataDir,
+      };
+      const autoLogin = createAutoLogin({ ...settings, profile });
+
+      try {
+        const result = await autoLogin.signup({
+          firstName:
+            (values["first-name"] as string | undefined) ||
+            process.env.SIGNUP_FIRST_NAME ||
+            "Test",
+          lastName:
+            (values["last-name"] as string | undefined) || process.env.SIGNUP_LAST_NAME || "User",
+          purpose: purpose as OnboardingPurpose,
+          workspaceName:
+            (values.workspace as string | undefined) || process.env.SIGNUP_WORKSPACE,
+        });
+        if (values.json) {
+          const { login, ...ids } = result;
+          process.stdout.write(`${JSON.stringify(ids, null, 2)}\n`);
+        }
+        await recordResult(profile, "success");
+        return EXIT.OK;
+      } catch (error) {
+        await recordResult(profile, "failed", error).catch(() => {});
+        if (!isLoginError(error)) {
+          logger.error("Signup failed", { error: describeError(error) });
+        }
+        return exitCodeFor(error);
+      } finally {
+        await autoLogin.close();
+      }
+    },
+  },
+
+  code: {
+    summary: "Print the latest unread magic code, waiting for one if needed",
+    usage: `code [options]
+${COMMON_HELP}
+
+Only the code is written to stdout; progress goes to stderr.`,
+    options: COMMON_OPTIONS,
+    async run(values) {
+      // Keep stdout for the code alone, so `$(... code)` works
+      logger.configure({ stream: "stderr" });
+      const { profile, mailSource, codeTimeout } = await resolveSettings(values);
+
+      const codeSource = createCodeSource(mailSource, {
+        user: stripEmailTag(profile.email),
+        password: profile.appPassword,
+      });
+      try {
+        await codeSource.connect();
+        const code = await codeSource.waitForCode(
+          profile.fromEmail,
+          codeTimeout,
+          undefined,
+          profile.email
+        );
+        process.stdout.write(`${code}\n`);
+        return EXIT.OK;
+      } catch (error) {
+        logger.error("No magic code", { error: describeError(error) });
+        return EXIT.MAIL;
+      } finally {
+        codeSource.disconnect();
+      }
+    },
+  },
+
+  purge: {
+    summary: "Delete or move old magic-code emails (IMAP)",
+    usage: `purge --older-than <days> [options]
+${COMMON_HELP}
+  --older-than <days> Only emails received more than this many days ago
+  --action <action>   delete or move (default: EMAIL_CLEANUP if it is one of those, else delete)
+  --folder <name>     Folder or Gmail label to move to (default: EMAIL_CLEANUP_FOLDER)
+  --dry-run           Only count the emails that would be purged`,
+    options: {
+      ...COMMON_OPTIONS,
+      "older-than": { type: "string" },
+      action: { type: "string" },
+      folder: { type: "string" },
+      "dry-run": { type: "boolean" },
+    },
+    async run(values) {
+      const days = Number(values["older-than"]);
+      if (values["older-than"] === undefined || !Number.isFinite(days) || days < 0) {
+        throw new UsageError("purge needs --older-than <days>");
+      }
+
+      const { profile, mailSource } = await resolveSettings(values);
+      const source = createCodeSource(mailSource, {
+        user: stripEmailTag(profile.email),
+        password: profile.appPassword,
+      });
+      if (!(source instanceof EmailMonitor)) {
+        throw new ConfigError(`purge only works with MAIL_SOURCE=imap, not ${mailSource.type}`);
+      }
+      const configured = mailSource.cleanup?.action;
+      const action =
+        (values.action as string | undefined) ??
+        (configured === "move" || configured === "delete" ? configured : "delete");
+      if (action !== "delete" && action !== "move") {
+        throw new UsageError(`Invalid --action "${action}", expected delete or move`);
+      }
+      let policy;
+      try {
+        policy = parseCleanupPolicy(
+          action,
+          (values.folder as string | undefined) ?? mailSource.cleanup?.folder
+        );
+      } catch (error) {
+        throw new UsageError((error as Error).message);
+      }
+
+      const before = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const outcome = action === "move" ? `moved to "${policy.folder}"` : "deleted";
+      try {
+        const count = await source.purge(
+          profile.fromEmail,
+          before,
+          policy,
+          !!values["dry-run"]
+        );
+        logger.info(
+          values["dry-run"]
+            ? `🔍 ${count} magic-code email(s) from before ${before.toDateString()} would be ${outcome}`
+            : `🧹 ${count} magic-code email(s) from before ${before.toDateString()} ${outcome}`
+        );
+        return EXIT.OK;
+      } catch (error) {
+        logger.error("Purge failed", { error: describeError(error) });
+        return EXIT.MAIL;
+      } finally {
+        source.disconnect();
+      }
+    },
+  },
+
+  serve: {
+    summary: "Run a local daemon that shares one logged-in browser and mailbox",
+    usage: `serve [options]
+${COMMON_HELP}${ARTIFACT_HELP}
+  --port <port>       TCP port (overrides DAEMON_PORT, default 8790)
+  --host <host>       Address to bind (overrides DAEMON_HOST, default 127.0.0.1)
+  --socket <path>     Listen on a Unix socket instead of TCP (overrides DAEMON_SOCKET)
+
+The bearer token comes from DAEMON_TOKEN, else .daemon-token (generated
+when missing), never from the command line.
+
+Endpoints: GET /health, GET /session?format=${SESSION_FORMATS.join("|")},
+POST /login, GET /code?alias=<email>&since=<time>&timeout=<sec>`,
+    options: {
+      ...COMMON_OPTIONS,
+      ...ARTIFACT_OPTIONS,
+      port: { type: "string" },
+      host: { type: "string" },
+      socket: { type: "string" },
+    },
+    async run(values) {
+      const port = Number(values.port ?? process.env.DAEMON_PORT ?? 8790);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new UsageError(`Invalid --port "${values.port}"`);
+      }
+
+      const settings = await resolveSettings(values);
+      const { profile } = settings;
+      const codeSource = createCodeSource(settings.mailSource, {
+        user: stripEmailTag(profile.email),
+        password: profile.appPassword,
+      });
+      const daemon = new LoginDaemon(
+        {
+          port,
+          host: (values.host as string | undefined) || process.env.DAEMON_HOST,
+          socket: (values.socket as string | undefined) || process.env.DAEMON_SOCKET,
+          token: process.env.DAEMON_TOKEN,
+          email: profile.email,
+          fromEmail: profile.fromEmail,
+          codeTimeout: settings.codeTimeout,
+        },
+        createAutoLogin(settings, codeSource),
+        codeSource
+      );
+
+      try {
+        await daemon.start();
+      } catch (error) {
+        logger.error("Daemon failed to start", { error: describeError(error) });
+        await daemon.stop();
+        return EXIT.FAILED;
+      }
+      logger.info("Daemon running. Press Ctrl+C to stop.\n");
+
+      for (const signal of ["SIGINT", "SIGTERM"] as const) {
+        process.on(signal, async () => {
+          logger.info("\nStopping daemon...");
+          await daemon.stop();
+          process.exit(EXIT.OK);
+        });
+      }
+
+      return new Promise(() => {});
+    },
+  },
+
+  "export-session": {
+    summary: "Log in, then write storageState, cookie jar and authToken files",
+    usage: `export-session [options]
+${COMMON_HELP}${ARTIFACT_HELP}
+  --format <list>     Comma-separated: ${SESSION_FORMATS.join(", ")} (default: all)
+  --out <dir>         Output directory (default: sessions/<profile>)`,
+    options: {
+      ...COMMON_OPTIONS,
+      ...ARTIFACT_OPTIONS,
+      format: { type: "string" },
+      out: { type: "string" },
+    },
+    async run(values) {
+      let formats;
+      try {
+        formats = parseSessionFormats(
+          (values.format as string | undefined) || SESSION_FORMATS.join(",")
+        );
+      } catch (error) {
+        throw new UsageError((error as Error).message);
+      }
+
+      const settings = await resolveSettings(values);
+      const autoLogin = createAutoLogin(settings);
+      try {
+        await autoLogin.login();
+        await recordResult(settings.profile, "success");
+        const outDir =
+          (values.out as string | undefined) || `sessions/${settings.profile.name}`;
+        for (const path of await autoLogin.exportSession(outDir, formats)) {
+          logger.info(`💾 Session exported to ${path}`);
+        }
+        return EXIT.OK;
+      } catch (error) {
+        await recordResult(settings.profile, "failed", error).catch(() => {});
+        return exitCodeFor(error);
+      } finally {
+        await autoLogin.close();
+      }
+    },
+  },
+
+  doctor: {
+    summary: "Diagnose config, mailbox and browser problems without logging in",
+    usage: `doctor [options]
+${COMMON_HELP}
+  --json              Print the report as JSON`,
+    options: { ...COMMON_OPTIONS, json: { type: "boolean" } },
+    async run(values) {
+      if (values.json) {
+        // Keep stdout for the report alone
+        logger.configure({ stream: "stderr" });
+      }
+
+      let report: DoctorReport;
+      try {
+        const { profile, mailSource } = await resolveSettings(values);
+        report = await runDoctor({ profile, mailSource });
+      } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        report = {
+          ok: false,
+          checks: [
+            { name: "Configuration", status: "fail", message: error.message },
+          ],
+        };
+      }
+
+      process.stdout.write(
+        `${values.json ? JSON.stringify(report, null, 2) : formatReport(report)}\n`
+      );
+      return report.ok ? EXIT.OK : EXIT.FAILED;
+    },
+  },
+
+  environments: {
+    summary: "List the environment presets",
+    usage: "environments",
+    options: { help: { type: "boolean", short: "h" } },
+    async run() {
+      const active = process.env.ENVIRONMENT || DEFAULT_ENVIRONMENT;
+      for (const environment of Object.values(ENVIRONMENTS)) {
+        const marker = environment.name === active ? "*" : " ";
+        console.log(
+          `${marker} ${environment.name.padEnd(12)} ${environment.loginUrl.padEnd(40)} ${environment.description}`
+        );
+      }
+      return EXIT.OK;
+    },
+  },
+
+  profiles: {
+    summary: "List profiles and when each last logged in",
+    usage: "profiles",
+    options: { help: { type: "boolean", short: "h" } },
+    async run() {
+      const names = await listProfiles();
+      if (names.length === 0) {
+        console.log("No profiles found. Add profiles.json or .env.<profile> files.");
+        return EXIT.OK;
+      }
+
+      for (const name of names) {
+        try {
+          const profile = await loadProfile(name);
+          const last = await readLastLogin(profile);
+          const status = last
+            ? `${last.status === "success" ? "✅" : "❌"} ${last.at}${
+                last.error ? ` (${last.error})` : ""
+              }`
+            : "never logged in";
+          console.log(`${name.padEnd(16)} ${profile.email.padEnd(36)} ${status}`);
+        } catch (error) {
+          console.log(`${name.padEnd(16)} ⚠️  ${(error as Error).message}`);
+        }
+      }
+      return EXIT.OK;
+    },
+  },
+
+  aliases: {
+    summary: "Generate, list and retire +tag test accounts",
+    usage: `aliases [list|new|retire <email>...] [options]
+  list                List registered aliases (default)
+  new                 Add aliases to the registry
+  retire <email>...   Mark aliases retired; their tags are never reused
+  --base <email>      Inbox the aliases deliver to (default: EMAIL without its +tag)
+  --pattern <tag>     Tag template with {n}, {date}, {role}, {rand} (default: ${DEFAULT_ALIAS_PATTERN})
+  --count <n>         How many aliases to add (default: 1)
+  --role <role>       What the accounts are for, stored with each alias
+  --all               Also list retired aliases
+  --json              Print JSON`,
+    options: {
+      help: { type: "boolean", short: "h" },
+      base: { type: "string" },
+      pattern: { type: "string" },
+      count: { type: "string" },
+      role: { type: "string" },
+      all: { type: "boolean" },
+      json: { type: "boolean" },
+    },
+    positionals: true,
+    async run(values, positionals) {
+      const [action = "list", ...emails] = positionals;
+
+      if (action === "new") {
+        const base = (values.base as string) || process.env.EMAIL;
+        if (!base) throw new UsageError("--base (or EMAIL) is required");
+        const count = Number(values.count ?? 1);
+        if (!Number.isInteger(count) || count < 1) {
+          throw new UsageError(`Invalid --count "${values.count}"`);
+        }
+        // A broken registry is a config problem, not a bad flag
+        await readAliases().catch((error) => {
+          throw new ConfigError(error.message);
+        });
+        let created: Alias[];
+        try {
+          created = await generateAliases({
+            base,
+            pattern: values.pattern as string | undefined,
+            count,
+            role: values.role as string | undefined,
+          });
+        } catch (error) {
+          throw new UsageError((error as Error).message);
+        }
+        if (values.json) {
+          process.stdout.write(`${JSON.stringify(created, null, 2)}\n`);
+        } else {
+          for (const alias of created) console.log(alias.email);
+        }
+        return EXIT.OK;
+      }
+
+      if (action === "retire") {
+        if (emails.length === 0) throw new UsageError("retire needs at least one email");
+        const retired = await retireAliases(emails).catch((error) => {
+          throw new ConfigError(error.message);
+        });
+        const found = new Set(retired.map((alias) => alias.email));
+        for (const email of emails) {
+          if (found.has(email.toLowerCase())) {
+            logger.info(`🪦 Retired ${email.toLowerCase()}`);
+          } else {
+            logger.warn(`⚠️  ${email} is not a registered alias`);
+          }
+        }
+        return found.size === emails.length ? EXIT.OK : EXIT.USAGE;
+      }
+
+      if (action !== "list") {
+        throw new UsageError(`Unknown aliases action "${action}", expected list, new or retire`);
+      }
+      const aliases = Object.values(
+        await readAliases().catch((error) => {
+          throw new ConfigError(error.message);
+        })
+      ).filter((alias) => values.all || !alias.retiredAt);
+      if (values.json) {
+        process.stdout.write(`${JSON.stringify(aliases, null, 2)}\n`);
+        return EXIT.OK;
+      }
+      if (aliases.length === 0) {
+        console.log("No aliases yet. Add some with: bun cli.ts aliases new --count 3");
+        return EXIT.OK;
+      }
+      for (const alias of aliases) {
+        const last = alias.lastLogin
+          ? `${alias.lastLogin.status === "success" ? "✅" : "❌"} ${alias.lastLogin.at}`
+          : "never logged in";
+        const retired = alias.retiredAt ? `  retired ${alias.retiredAt.slice(0, 10)}` : "";
+        console.log(
+          `${alias.email.padEnd(40)} ${(alias.role ?? "").padEnd(16)} created ${alias.createdAt.slice(0, 10)}  ${last}${retired}`
+        );
+      }
+      return EXIT.OK;
+    },
+  },
+};
+
+function mainHelp(): string {
+  const commands = Object.entries(COMMANDS)
+    .map(([name, command]) => `  ${name.padEnd(16)} ${command.summary}`)
+    .join("\n");
+  const exitCodes = Object.entries(EXIT)
+    .map(([name, code]) => `  ${code}  ${name}`)
+    .join("\n");
+
+  return `Usage: bun cli.ts <command> [options]
+
+Commands:
+${commands}
+
+Run "bun cli.ts <command> --help" for a command's options. Flags override
+.env, which overrides the built-in defaults.
+
+Exit codes:
+${exitCodes}`;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  const [name, ...rest] = argv;
+  if (!name || name === "--help" || name === "-h" || name === "help") {
+    const topic = name === "help" ? COMMANDS[rest[0]] : undefined;
+    console.log(topic ? `Usage: bun cli.ts ${topic.usage}` : mainHelp());
+    return name ? EXIT.OK : EXIT.USAGE;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(`Unknown command "${name}"\n\n${mainHelp()}`);
+    return EXIT.USAGE;
+  }
+
+  let values;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: rest,
+      options: command.options,
+      strict: true,
+      allowPositionals: !!command.positionals,
+    }));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\nUsage: bun cli.ts ${command.usage}`);
+    return EXIT.USAGE;
+  }
+  if (values.help) {
+    console.log(`Usage: bun cli.ts ${command.usage}`);
+    return EXIT.OK;
+  }
+
+  await loadEnv();
+  try {
+    logger.configure(loggerOptionsFromEnv());
+  } catch (error) {
+    console.error((error as Error).message);
+    return EXIT.CONFIG;
+  }
+  const logFormat = values["log-format"];
+  if (logFormat !== undefined && logFormat !== "text" && logFormat !== "json") {
+    console.error(`Invalid --log-format "${logFormat}", expected text or json`);
+    return EXIT.USAGE;
+  }
+  logger.configure({
+    ...(values.verbose ? { level: "debug" } : values.quiet ? { level: "warn" } : {}),
+    ...(logFormat ? { format: logFormat } : {}),
+  });
+
+  try {
+    return await command.run(values, positionals);
+  } catch (error) {
+    logger.error((error as Error).message);
+    return exitCodeFor(error);
+  }
+}
+
+// @ts-ignore
+if (import.meta.main) {
+  main().then((code) => process.exit(code));
+}
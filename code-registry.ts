@@ -0,0 +1,102 @@
+/**
+ * A login waiting for its magic code
+ */
+export interface CodeRequest {
+  fromEmail: string;
+  sinceTime?: Date;
+  /** Exact (+tag included) address the code must have been sent to */
+  recipient?: string;
+}
+
+/**
+ * A magic code found in the mailbox, with what's needed to route it
+ */
+export interface CodeCandidate {
+  code: string;
+  /** Extraction rule that found the code */
+  rule?: string;
+  from: string[];
+  recipients: string[];
+  date: Date;
+}
+
+interface Pending {
+  request: CodeRequest;
+  resolve: (code: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Tracks logins waiting for codes so that one mailbox scan can serve all of
+ * them, and each code goes to the login that asked for it. Requests naming a
+ * recipient are served before catch-all requests, oldest first.
+ */
+export class CodeRegistry {
+  private pending: Pending[] = [];
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  requests(): CodeRequest[] {
+    return this.pending.map((p) => p.request);
+  }
+
+  /**
+   * Resolves when offer() hands this request a code, or rejects after
+   * maxWaitTime
+   */
+  add(request: CodeRequest, maxWaitTime: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const entry: Pending = {
+        request,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.remove(entry);
+          reject(new Error("⏱️  Timeout waiting for email"));
+        }, maxWaitTime),
+      };
+      this.pending.push(entry);
+    });
+  }
+
+  /**
+   * Gives the code to the first pending request it matches. Returns false if
+   * no request wants it, so the caller can leave the email untouched.
+   */
+  offer(candidate: CodeCandidate): boolean {
+    const ordered = [
+      ...this.pending.filter((p) => p.request.recipient),
+      ...this.pending.filter((p) => !p.request.recipient),
+    ];
+    const match = ordered.find((p) => matches(p.request, candidate));
+    if (!match) return false;
+
+    this.remove(match);
+    match.resolve(candidate.code);
+    return true;
+  }
+
+  failAll(error: Error): void {
+    for (const entry of [...this.pending]) {
+      this.remove(entry);
+      entry.reject(error);
+    }
+  }
+
+  private remove(entry: Pending): void {
+    clearTimeout(entry.timer);
+    this.pending = this.pending.filter((p) => p !== entry);
+  }
+}
+
+function matches(request: CodeRequest, candidate: CodeCandidate): boolean {
+  if (!candidate.from.includes(request.fromEmail.toLowerCase())) return false;
+  if (request.sinceTime && candidate.date < request.sinceTime) return false;
+  return (
+    !request.recipient ||
+    candidate.recipients.includes(request.recipient.toLowerCase())
+  );
+}
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { basename } from "node:path";
+import { CodeMatch, emlFiles, matchCodeRules, readEml } from "./code-rules";
+
+const CORPUS = "fixtures/emails";
+
+/**
+ * What the default rules should find in each sample; null for emails
+ * that must not yield a code. Every .eml in the corpus needs an entry.
+ */
+const EXPECTED: Record<string, Omit<CodeMatch, "part"> | null> = {
+  "body-after-date.eml": { code: "551234", rule: "body-after-label" },
+  "expired-no-code.eml": null,
+  "html-only.eml": { code: "739201", rule: "html-code-element" },
+  "multipart.eml": { code: "905117", rule: "html-code-element" },
+  "receipt-no-code.eml": null,
+  "subject-en.eml": { code: "147826", rule: "subject-en" },
+  "subject-es.eml": { code: "482913", rule: "subject-es" },
+};
+
+describe("default code rules on the .eml corpus", async () => {
+  const files = await emlFiles([CORPUS]);
+
+  test("every sample has an expected result", () => {
+    expect(files.map((file) => basename(file)).sort()).toEqual(Object.keys(EXPECTED).sort());
+  });
+
+  for (const file of files) {
+    const expected = EXPECTED[basename(file)];
+    test(`${basename(file)}: ${expected ? `${expected.code} via ${expected.rule}` : "no code"}`, async () => {
+      const match = matchCodeRules(await readEml(file));
+      if (expected) {
+        expect(match).toMatchObject(expected);
+      } else {
+        expect(match).toBeNull();
+      }
+    });
+  }
+});
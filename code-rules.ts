@@ -0,0 +1,285 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { simpleParser } from "mailparser";
+
+/**
+ * Bumped when the rules file format changes incompatibly
+ */
+export const CODE_RULES_SCHEMA_VERSION = 1;
+
+/**
+ * One way of finding a magic code in an email. Every condition the rule
+ * sets must hold; the code comes from the subject's capture group, else the
+ * HTML element, else the body's capture group. Regexes are case-insensitive.
+ */
+export interface CodeRule {
+  name: string;
+  /** Addresses, or "@domain", the email must come from. Any sender if unset */
+  senders?: string[];
+  /** The subject must match. With a capture group, that group is the code */
+  subject?: string;
+  /** Matched against each element's opening tag, e.g. `class="code"`; the code is the element's 6-digit text */
+  htmlElement?: string;
+  /** Matched against the plain-text body; the first capture group is the code */
+  body?: string;
+}
+
+/**
+ * The parts of an email the rules look at
+ */
+export interface MailContent {
+  from: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface CodeMatch {
+  code: string;
+  /** Name of the rule that found it */
+  rule: string;
+  part: "subject" | "html" | "body";
+}
+
+const MAGIC_CODE_TOPIC = "magic code|c[oó]digo m[aá]gico";
+
+/**
+ * Tried in order; the first rule that yields a code wins. The body rules
+ * only run on emails whose subject is about a magic code.
+ */
+export const DEFAULT_CODE_RULES: CodeRule[] = [
+  { name: "subject-en", subject: "Expensify magic code:\\s*(\\d{6})\\b" },
+  { name: "subject-es", subject: "c[oó]digo m[aá]gico[^:\\d]*:\\s*(\\d{6})\\b" },
+  {
+    name: "html-code-element",
+    subject: MAGIC_CODE_TOPIC,
+    htmlElement:
+      '(?:class|id)\\s*=\\s*"(?:[^"]*\\s)?(?:magic-?code|validate-?code|code)(?:\\s[^"]*)?"',
+  },
+  {
+    name: "body-after-label",
+    subject: MAGIC_CODE_TOPIC,
+    body: `(?:${MAGIC_CODE_TOPIC})\\D{0,40}?(?<![\\d#])(\\d{6})(?!\\d)`,
+  },
+  // Skips numbers that are part of a date, time, amount or order number
+  {
+    name: "body-standalone-number",
+    subject: MAGIC_CODE_TOPIC,
+    body: "(?<![\\d/.:,#-])(\\d{6})(?!\\d|[/.:,-]\\d)",
+  },
+];
+
+const CODE_PATTERN = /(?<!\d)(\d{6})(?!\d)/;
+
+const ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Visible text of an HTML fragment, good enough for matching codes
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)\b[\s\S]*?<\/\1\s*>/gi, " ")
+    .replace(/<br\s*\/?>|<\/(p|div|tr|td|h\d|li)\s*>/gi, "\n")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+      if (name[0] === "#") {
+        const hex = name[1].toLowerCase() === "x";
+        return String.fromCodePoint(parseInt(name.slice(hex ? 2 : 1), hex ? 16 : 10));
+      }
+      return ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+/g, " ");
+}
+
+function regex(pattern: string): RegExp {
+  return new RegExp(pattern, "i");
+}
+
+function fromAllowed(from: string[], senders: string[]): boolean {
+  return from.some((address) =>
+    senders.some((sender) => {
+      const allowed = sender.toLowerCase();
+      return allowed.startsWith("@") ? address.endsWith(allowed) : address === allowed;
+    })
+  );
+}
+
+/**
+ * Text of the first element whose opening tag matches, if it holds a code
+ */
+function codeFromElement(html: string, tagPattern: RegExp): string | null {
+  const openingTags = /<([a-z][a-z0-9]*)\b([^>]*)>/gi;
+  let tag: RegExpExecArray | null;
+  while ((tag = openingTags.exec(html))) {
+    if (!tagPattern.test(tag[2])) continue;
+    const start = tag.index + tag[0].length;
+    const end = html.toLowerCase().indexOf(`</${tag[1].toLowerCase()}`, start);
+    const text = htmlToText(html.slice(start, end === -1 ? undefined : end));
+    const code = text.match(CODE_PATTERN)?.[1];
+    if (code) return code;
+  }
+  return null;
+}
+
+function applyRule(rule: CodeRule, mail: MailContent): CodeMatch | null {
+  if (rule.senders?.length && !fromAllowed(mail.from, rule.senders)) return null;
+
+  const match = (code: string | null | undefined, part: CodeMatch["part"]) =>
+    code ? { code, rule: rule.name, part } : null;
+
+  let subjectCode: string | undefined;
+  if (rule.subject) {
+    const subject = mail.subject.match(regex(rule.subject));
+    if (!subject) return null;
+    subjectCode = subject[1];
+  }
+  if (subjectCode) return match(subjectCode, "subject");
+
+  if (rule.htmlElement) {
+    const code = mail.html ? codeFromElement(mail.html, regex(rule.htmlElement)) : null;
+    if (code || !rule.body) return match(code, "html");
+  }
+
+  if (rule.body) {
+    const text = mail.text || htmlToText(mail.html);
+    return match(text.match(regex(rule.body))?.[1], "body");
+  }
+  return null;
+}
+
+/**
+ * Runs the rules in order and returns the first code found, with the rule
+ * that found it
+ */
+export function matchCodeRules(
+  mail: MailContent,
+  rules: CodeRule[] = DEFAULT_CODE_RULES
+): CodeMatch | null {
+  for (const rule of rules) {
+    const match = applyRule(rule, mail);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Shape of a user rules file. Its rules are tried before the defaults,
+ * unless `defaults` is false.
+ */
+interface RulesFile {
+  version: number;
+  defaults?: boolean;
+  rules: CodeRule[];
+}
+
+function validateRule(rule: CodeRule, index: number): void {
+  const label = `Code rule ${rule?.name ?? `#${index + 1}`}`;
+  if (!rule?.name) {
+    throw new Error(`${label} has no name`);
+  }
+  if (!rule.htmlElement && !rule.body && !rule.subject?.includes("(")) {
+    throw new Error(
+      `${label} can't find a code: set body, htmlElement or a subject with a capture group`
+    );
+  }
+  for (const key of ["subject", "htmlElement", "body"] as const) {
+    if (rule[key] === undefined) continue;
+    try {
+      regex(rule[key]!);
+    } catch (error) {
+      throw new Error(`${label} has an invalid ${key} regex: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * The default rules, optionally extended or replaced by a JSON rules file
+ * (CODE_RULES_FILE)
+ */
+export async function loadCodeRules(file?: string): Promise<CodeRule[]> {
+  if (!file) return DEFAULT_CODE_RULES;
+
+  let config: RulesFile;
+  try {
+    config = JSON.parse(await readFile(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read code rules file ${file}: ${(error as Error).message}`);
+  }
+
+  if (config.version !== CODE_RULES_SCHEMA_VERSION) {
+    throw new Error(
+      `${file} has version ${config.version}, expected ${CODE_RULES_SCHEMA_VERSION}`
+    );
+  }
+  if (!Array.isArray(config.rules)) {
+    throw new Error(`${file} needs a "rules" list`);
+  }
+  config.rules.forEach(validateRule);
+
+  return config.defaults === false
+    ? config.rules
+    : [...config.rules, ...DEFAULT_CODE_RULES];
+}
+
+/**
+ * The parts of a saved .eml file the rules look at
+ */
+export async function readEml(file: string): Promise<MailContent> {
+  const parsed = await simpleParser(await readFile(file));
+  return {
+    from: parsed.from?.value.map((a) => a.address?.toLowerCase() ?? "") ?? [],
+    subject: parsed.subject ?? "",
+    text: parsed.text ?? "",
+    html: parsed.html || "",
+  };
+}
+
+export async function emlFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    if ((await stat(path)).isDirectory()) {
+      const names = (await readdir(path)).filter((name) => name.endsWith(".eml")).sort();
+      files.push(...names.map((name) => join(path, name)));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Shows which rule (if any) finds a code in each .eml file:
+ * bun run code-rules.ts fixtures/emails [more.eml ...]
+ */
+async function main(): Promise<void> {
+  const paths = process.argv.slice(2);
+  if (paths.length === 0) {
+    console.error("Usage: bun run code-rules.ts <file.eml | directory>...");
+    process.exit(2);
+  }
+
+  const rules = await loadCodeRules(process.env.CODE_RULES_FILE);
+  for (const file of await emlFiles(paths)) {
+    const match = matchCodeRules(await readEml(file), rules);
+    console.log(
+      match
+        ? `${file}: ${match.code} (rule ${match.rule}, from ${match.part})`
+        : `${file}: no code`
+    );
+  }
+}
+
+// @ts-ignore
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error((error as Error).message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,170 @@
+import type { AddressObject, ParsedMail } from "mailparser";
+import type { CodeCandidate } from "./code-registry";
+import { CodeMatch, CodeRule, DEFAULT_CODE_RULES, matchCodeRules } from "./code-rules";
+import { logger } from "./logger";
+
+/**
+ * Anything that can deliver Expensify magic codes: an IMAP inbox, a local
+ * mail spool, a webhook, or a dev SMTP catcher
+ */
+export interface CodeSource {
+  connect(): Promise<void>;
+  /**
+   * Resolves with the newest code from fromEmail received after sinceTime.
+   * With a recipient, only mail addressed to that exact address counts, so
+   * several logins can share one inbox.
+   */
+  waitForCode(
+    fromEmail: string,
+    maxWaitTime: number,
+    sinceTime?: Date,
+    recipient?: string
+  ): Promise<string>;
+  disconnect(): void;
+}
+
+export type CleanupAction = "mark-read" | "move" | "delete";
+
+export const CLEANUP_ACTIONS: CleanupAction[] = ["mark-read", "move", "delete"];
+
+/**
+ * What happens to an email once its code has been used: "mark-read"
+ * (default) flags it as read, "move" files it in `folder` (a Gmail label or
+ * IMAP folder), "delete" removes it
+ */
+export interface CleanupPolicy {
+  action: CleanupAction;
+  folder?: string;
+}
+
+// Headers set by the receiving server that keep the original +tag address
+// when the visible To was rewritten (forwarding, catch-all relays)
+const DELIVERY_HEADERS = ["delivered-to", "x-original-to", "envelope-to"];
+
+function addresses(field: AddressObject | AddressObject[] | undefined) {
+  return [field ?? []]
+    .flat()
+    .flatMap((group) => group.value)
+    .map((a) => a.address?.toLowerCase())
+    .filter((address): address is string => !!address);
+}
+
+/**
+ * Every address a message was delivered to: To, Cc and delivery headers,
+ * lowercased with any +tag intact
+ */
+export function recipientsOf(parsed: ParsedMail): string[] {
+  const delivered = parsed.headerLines
+    .filter((header) => DELIVERY_HEADERS.includes(header.key))
+    .flatMap((header) => header.line.match(/[^\s<>:,"]+@[^\s<>,"]+/g) ?? [])
+    .map((address) => address.toLowerCase());
+
+  return [
+    ...new Set([...addresses(parsed.to), ...addresses(parsed.cc), ...delivered]),
+  ];
+}
+
+export function isAddressedTo(parsed: ParsedMail, recipient: string): boolean {
+  return recipientsOf(parsed).includes(recipient.toLowerCase());
+}
+
+/**
+ * Finds the code with the extraction rules (see code-rules.ts) and logs
+ * which rule matched
+ */
+export function extractCode(
+  parsed: ParsedMail,
+  rules: CodeRule[] = DEFAULT_CODE_RULES
+): CodeMatch | null {
+  const match = matchCodeRules(
+    {
+      from: addresses(parsed.from),
+      subject: parsed.subject || "",
+      text: parsed.text || "",
+      html: parsed.html || "",
+    },
+    rules
+  );
+  if (match) {
+    logger.debug(`✅ Extracted code from ${match.part}`, {
+      code: match.code,
+      rule: match.rule,
+    });
+  }
+  return match;
+}
+
+/**
+ * Turns a magic-code email into something CodeRegistry can route, or null
+ * if it isn't one
+ */
+export function candidateFromParsedMail(
+  parsed: ParsedMail,
+  receivedAt: Date = new Date(),
+  rules?: CodeRule[]
+): CodeCandidate | null {
+  const match = extractCode(parsed, rules);
+  if (!match) return null;
+
+  return {
+    code: match.code,
+    rule: match.rule,
+    from: addresses(parsed.from),
+    recipients: recipientsOf(parsed),
+    date: parsed.date ?? receivedAt,
+  };
+}
+
+/**
+ * Applies the sender/subject/date/recipient filters the IMAP search does
+ * server-side, for sources that hand us every message
+ */
+export function codeFromParsedMail(
+  parsed: ParsedMail,
+  fromEmail: string,
+  sinceTime?: Date,
+  recipient?: string,
+  rules?: CodeRule[]
+): string | null {
+  const from = parsed.from?.value.map((a) => a.address?.toLowerCase());
+  if (!from?.includes(fromEmail.toLowerCase())) return null;
+
+  if (sinceTime && parsed.date && parsed.date < sinceTime) return null;
+  if (recipient && !isAddressedTo(parsed, recipient)) return null;
+
+  return extractCode(parsed, rules)?.code ?? null;
+}
+
+/**
+ * Calls check until it yields a code or maxWaitTime passes
+ */
+export function pollForCode(
+  check: () => Promise<string | null>,
+  maxWaitTime: number,
+  interval: number = 2000
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const startTime = Date.now();
+
+    const poll = async () => {
+      if (Date.now() - startTime > maxWaitTime) {
+        reject(new Error("⏱️  Timeout waiting for email"));
+        return;
+      }
+
+      try {
+        const code = await check();
+        if (code) {
+          logger.info("📧 Code found in email", { code });
+          resolve(code);
+        } else {
+          setTimeout(poll, interval);
+        }
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    poll();
+  });
+}
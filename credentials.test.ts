@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  credentialAccount,
+  CredentialProvider,
+  credentialProviders,
+  envProvider,
+  findCredential,
+  storingProvider,
+  writableProvider,
+} from "./credentials";
+
+/** An in-memory provider; `available: false` stands for a missing tool */
+function fakeProvider(
+  name: string,
+  secrets: Record<string, string> = {},
+  available = true
+): CredentialProvider & { secrets: Record<string, string> } {
+  return {
+    name,
+    secrets,
+    isAvailable: async () => available,
+    get: async (account) => secrets[account] ?? null,
+    set: async (account, secret) => {
+      secrets[account] = secret;
+    },
+    remove: async (account) => {
+      delete secrets[account];
+    },
+  };
+}
+
+describe("credentialAccount", () => {
+  test("folds +tag aliases into the mailbox address", () => {
+    expect(credentialAccount("me+qa1@gmail.com")).toBe("me@gmail.com");
+    expect(credentialAccount("me+a+b@gmail.com")).toBe("me@gmail.com");
+  });
+
+  test("lowercases the address", () => {
+    expect(credentialAccount("Me+QA@Example.COM")).toBe("me@example.com");
+  });
+
+  test("leaves untagged addresses alone", () => {
+    expect(credentialAccount("me@gmail.com")).toBe("me@gmail.com");
+  });
+});
+
+describe("credentialProviders", () => {
+  test("defaults to env, keychain and secret-service, without a vault", () => {
+    expect(credentialProviders({}).map((p) => p.name)).toEqual([
+      "env",
+      "keychain",
+      "secret-service",
+    ]);
+  });
+
+  test("adds the vault when CREDENTIAL_VAULT is set", () => {
+    const names = credentialProviders({ CREDENTIAL_VAULT: "secrets.json.age" }).map(
+      (p) => p.name
+    );
+    expect(names).toEqual(["env", "keychain", "secret-service", "vault"]);
+  });
+
+  test("follows the order in CREDENTIAL_PROVIDERS", () => {
+    const providers = credentialProviders({
+      CREDENTIAL_PROVIDERS: "vault, env",
+      CREDENTIAL_VAULT: "secrets.json.gpg",
+    });
+    expect(providers.map((p) => p.name)).toEqual(["vault", "env"]);
+  });
+
+  test("rejects an unknown provider", () => {
+    expect(() => credentialProviders({ CREDENTIAL_PROVIDERS: "env,lastpass" })).toThrow(
+      'Unknown credential provider "lastpass"'
+    );
+  });
+});
+
+describe("envProvider", () => {
+  const saved = { EMAIL: process.env.EMAIL, APP_PASSWORD: process.env.APP_PASSWORD };
+
+  beforeEach(() => {
+    process.env.EMAIL = "Me+qa@gmail.com";
+    process.env.APP_PASSWORD = "abcd efgh ijkl mnop";
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  test("answers for the EMAIL mailbox, without spaces", async () => {
+    expect(await envProvider.get("me@gmail.com")).toBe("abcdefghijklmnop");
+  });
+
+  test("doesn't answer for other mailboxes", async () => {
+    expect(await envProvider.get("someone@gmail.com")).toBeNull();
+  });
+
+  test("doesn't answer without EMAIL", async () => {
+    delete process.env.EMAIL;
+    expect(await envProvider.get("me@gmail.com")).toBeNull();
+  });
+});
+
+describe("findCredential", () => {
+  test("returns the first provider's secret, looked up by mailbox", async () => {
+    const first = fakeProvider("first", { "me@gmail.com": "one" });
+    const second = fakeProvider("second", { "me@gmail.com": "two" });
+
+    expect(await findCredential("me+qa@gmail.com", [first, second])).toEqual({
+      secret: "one",
+      provider: "first",
+    });
+  });
+
+  test("falls through providers that are unavailable or have no secret", async () => {
+    const missing = fakeProvider("missing", { "me@gmail.com": "nope" }, false);
+    const empty = fakeProvider("empty");
+    const last = fakeProvider("last", { "me@gmail.com": "abcd efgh" });
+
+    expect(await findCredential("me@gmail.com", [missing, empty, last])).toEqual({
+      secret: "abcdefgh",
+      provider: "last",
+    });
+  });
+
+  test("returns null when nobody has it", async () => {
+    expect(await findCredential("me@gmail.com", [fakeProvider("empty")])).toBeNull();
+  });
+});
+
+describe("writableProvider", () => {
+  test("skips read-only and unavailable providers", async () => {
+    const providers = [envProvider, fakeProvider("missing", {}, false), fakeProvider("store")];
+    expect((await writableProvider(undefined, providers)).name).toBe("store");
+  });
+
+  test("fails when the named provider isn't there", async () => {
+    await expect(writableProvider("vault", [fakeProvider("store")])).rejects.toThrow(
+      'Credential provider "vault"'
+    );
+  });
+});
+
+describe("storingProvider", () => {
+  test("finds the provider that holds the secret", async () => {
+    const empty = fakeProvider("empty");
+    const holder = fakeProvider("holder", { "me@gmail.com": "secret" });
+
+    expect((await storingProvider("me+qa@gmail.com", undefined, [empty, holder])).name).toBe(
+      "holder"
+    );
+  });
+
+  test("fails when no provider holds it", async () => {
+    await expect(storingProvider("me@gmail.com", undefined, [fakeProvider("empty")])).rejects.toThrow(
+      "No stored app password for me@gmail.com"
+    );
+  });
+});
@@ -0,0 +1,338 @@
+import { spawn } from "node:child_process";
+import { access, rename } from "node:fs/promises";
+import { createInterface } from "node:readline";
+
+const SERVICE = "expensify-auto-login";
+
+/**
+ * Somewhere an app password can be stored, keyed by mailbox address
+ */
+export interface CredentialProvider {
+  name: string;
+  isAvailable(): Promise<boolean>;
+  get(account: string): Promise<string | null>;
+  /** Read-only providers (env) leave these out */
+  set?(account: string, secret: string): Promise<void>;
+  remove?(account: string): Promise<void>;
+}
+
+/**
+ * The mailbox an app password belongs to: aliases (user+tag@) share the
+ * untagged address's password
+ */
+export function credentialAccount(email: string): string {
+  return email.replace(/\+[^@]+@/, "@").toLowerCase();
+}
+
+function run(command: string, args: string[], input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      stdio: [input === undefined ? "inherit" : "pipe", "pipe", "pipe"],
+    });
+    let stdout = "";
+    let stderr = "";
+    child.stdout!.on("data", (chunk) => (stdout += chunk));
+    child.stderr!.on("data", (chunk) => (stderr += chunk));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with ${code}: ${stderr.trim()}`));
+      }
+    });
+    if (input !== undefined) {
+      child.stdin!.end(input);
+    }
+  });
+}
+
+async function hasCommand(command: string): Promise<boolean> {
+  // Passed as $1, so the name is never parsed by the shell
+  return run("sh", ["-c", 'command -v "$1"', "sh", command], "")
+    .then(() => true)
+    .catch(() => false);
+}
+
+/**
+ * APP_PASSWORD from the environment or .env. It belongs to the EMAIL
+ * mailbox, so other accounts fall through to the keyring.
+ */
+export const envProvider: CredentialProvider = {
+  name: "env",
+  isAvailable: async () => true,
+  get: async (account) =>
+    process.env.EMAIL && credentialAccount(process.env.EMAIL) === account
+      ? process.env.APP_PASSWORD?.replace(/\s/g, "") || null
+      : null,
+};
+
+// Quoted for `security -i`, which reads commands from stdin
+function securityArg(value: string): string {
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * macOS login keychain, via the `security` tool
+ */
+export const keychainProvider: CredentialProvider = {
+  name: "keychain",
+  isAvailable: async () =>
+    process.platform === "darwin" && (await hasCommand("security")),
+  get: (account) =>
+    run("security", ["find-generic-password", "-s", SERVICE, "-a", account, "-w"], "")
+      .then((out) => out.trim() || null)
+      .catch(() => null),
+  set: async (account, secret) => {
+    // -U updates an existing item instead of failing. The command goes in
+    // on stdin so the secret never shows up in the process list.
+    const command = ["add-generic-password", "-U", "-s", SERVICE, "-a", account, "-w", secret]
+      .map(securityArg)
+      .join(" ");
+    await run("security", ["-i"], `${command}\n`);
+  },
+  remove: async (account) => {
+    await run("security", ["delete-generic-password", "-s", SERVICE, "-a", account], "");
+  },
+};
+
+/**
+ * Secret Service keyring (GNOME Keyring, KWallet), via libsecret's
+ * `secret-tool`
+ */
+export const secretServiceProvider: CredentialProvider = {
+  name: "secret-service",
+  isAvailable: async () =>
+    process.platform === "linux" && (await hasCommand("secret-tool")),
+  get: (account) =>
+    run("secret-tool", ["lookup", "service", SERVICE, "account", account], "")
+      .then((out) => out.trim() || null)
+      .catch(() => null),
+  set: async (account, secret) => {
+    await run(
+      "secret-tool",
+      ["store", `--label=${SERVICE} (${account})`, "service", SERVICE, "account", account],
+      secret
+    );
+  },
+  remove: async (account) => {
+    await run("secret-tool", ["clear", "service", SERVICE, "account", account], "");
+  },
+};
+
+/**
+ * An encrypted JSON file ({ "<account>": "<secret>" }) decrypted with age
+ * or gpg. Reading needs AGE_IDENTITY (age) or a gpg agent; writing needs
+ * VAULT_RECIPIENT (age public key or gpg key id; gpg without one encrypts
+ * with a passphrase).
+ */
+export function vaultProvider(
+  path: string,
+  env: NodeJS.ProcessEnv = process.env
+): CredentialProvider {
+  const tool = env.VAULT_TOOL || (path.endsWith(".gpg") ? "gpg" : "age");
+
+  const decrypt = async (): Promise<Record<string, string>> => {
+    try {
+      await access(path);
+    } catch {
+      return {};
+    }
+    const args =
+      tool === "age"
+        ? ["--decrypt", ...(env.AGE_IDENTITY ? ["-i", env.AGE_IDENTITY] : []), path]
+        : ["--quiet", "--decrypt", path];
+    return JSON.parse(await run(tool, args));
+  };
+
+  const encrypt = async (entries: Record<string, string>) => {
+    const recipient = env.VAULT_RECIPIENT;
+    if (tool === "age" && !recipient) {
+      throw new Error("VAULT_RECIPIENT (age public key) is required to write the vault");
+    }
+    const args =
+      tool === "age"
+        ? ["--encrypt", "-r", recipient!, "-o", `${path}.tmp`]
+        : [
+            "--quiet",
+            "--yes",
+            ...(recipient ? ["--encrypt", "-r", recipient] : ["--symmetric"]),
+            "-o",
+            `${path}.tmp`,
+          ];
+    await run(tool, args, JSON.stringify(entries));
+    // Replace atomically so a failed write can't corrupt the vault
+    await rename(`${path}.tmp`, path);
+  };
+
+  return {
+    name: "vault",
+    isAvailable: () => hasCommand(tool),
+    get: async (account) => (await decrypt())[account] ?? null,
+    set: async (account, secret) => {
+      const entries = await decrypt();
+      entries[account] = secret;
+      await encrypt(entries);
+    },
+    remove: async (account) => {
+      const entries = await decrypt();
+      delete entries[account];
+      await encrypt(entries);
+    },
+  };
+}
+
+/**
+ * Providers in lookup order, from CREDENTIAL_PROVIDERS (comma-separated).
+ * Default: env, keychain, secret-service, vault; the vault is only used when
+ * CREDENTIAL_VAULT points at a file.
+ */
+export function credentialProviders(
+  env: NodeJS.ProcessEnv = process.env
+): CredentialProvider[] {
+  const names = (
+    env.CREDENTIAL_PROVIDERS || "env,keychain,secret-service,vault"
+  )
+    .split(",")
+    .map((name) => name.trim());
+
+  return names.flatMap((name): CredentialProvider[] => {
+    switch (name) {
+      case "env":
+        return [envProvider];
+      case "keychain":
+        return [keychainProvider];
+      case "secret-service":
+        return [secretServiceProvider];
+      case "vault":
+        return env.CREDENTIAL_VAULT ? [vaultProvider(env.CREDENTIAL_VAULT, env)] : [];
+      default:
+        throw new Error(
+          `Unknown credential provider "${name}" (expected env, keychain, secret-service or vault)`
+        );
+    }
+  });
+}
+
+/**
+ * First secret found for the account, and which provider had it
+ */
+export async function findCredential(
+  email: string,
+  providers: CredentialProvider[] = credentialProviders()
+): Promise<{ secret: string; provider: string } | null> {
+  const account = credentialAccount(email);
+  for (const provider of providers) {
+    if (!(await provider.isAvailable())) continue;
+    const secret = await provider.get(account);
+    if (secret) {
+      return { secret: secret.replace(/\s/g, ""), provider: provider.name };
+    }
+  }
+  return null;
+}
+
+/**
+ * The first writable provider that works on this machine, or the one named
+ */
+export async function writableProvider(
+  name?: string,
+  providers: CredentialProvider[] = credentialProviders()
+): Promise<CredentialProvider> {
+  for (const provider of providers) {
+    if (!provider.set || (name && provider.name !== name)) continue;
+    if (await provider.isAvailable()) return provider;
+  }
+  throw new Error(
+    name
+      ? `Credential provider "${name}" is not available or not writable here`
+      : "No writable credential provider available (install secret-tool, or set CREDENTIAL_VAULT)"
+  );
+}
+
+/**
+ * The first writable provider that holds a secret for the account, or the
+ * one named
+ */
+export async function storingProvider(
+  email: string,
+  name?: string,
+  providers: CredentialProvider[] = credentialProviders()
+): Promise<CredentialProvider> {
+  const account = credentialAccount(email);
+  for (const provider of providers) {
+    if (!provider.remove || (name && provider.name !== name)) continue;
+    if (!(await provider.isAvailable())) continue;
+    if (name || (await provider.get(account))) return provider;
+  }
+  throw new Error(
+    name
+      ? `Credential provider "${name}" is not available or not writable here`
+      : `No stored app password for ${account}`
+  );
+}
+
+async function readSecretFromStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    process.stdout.write("App password (input is visible): ");
+  }
+  for await (const line of createInterface({ input: process.stdin })) {
+    return line.trim();
+  }
+  return "";
+}
+
+async function main() {
+  const [command, email] = process.argv.slice(2);
+  const providerIndex = process.argv.indexOf("--provider");
+  const providerName =
+    providerIndex === -1 ? undefined : process.argv[providerIndex + 1];
+
+  if (!command || !email || !["set", "get", "remove"].includes(command)) {
+    console.error(
+      "Usage: bun credentials.ts (set|get|remove) <email> [--provider keychain|secret-service|vault] [--show]"
+    );
+    process.exit(1);
+  }
+
+  const account = credentialAccount(email);
+
+  try {
+    switch (command) {
+      case "set": {
+        const provider = await writableProvider(providerName);
+        const secret = (await readSecretFromStdin()).replace(/\s/g, "");
+        if (!secret) throw new Error("No password given");
+        await provider.set!(account, secret);
+        console.log(`🔐 Stored app password for ${account} in ${provider.name}`);
+        break;
+      }
+      case "get": {
+        const found = await findCredential(account);
+        if (!found) {
+          console.error(`No app password found for ${account}`);
+          process.exit(1);
+        }
+        const shown = process.argv.includes("--show")
+          ? found.secret
+          : `${"*".repeat(Math.max(0, found.secret.length - 4))}${found.secret.slice(-4)}`;
+        console.log(`${account} (${found.provider}): ${shown}`);
+        break;
+      }
+      case "remove": {
+        const provider = await storingProvider(account, providerName);
+        await provider.remove!(account);
+        console.log(`🗑️  Removed app password for ${account} from ${provider.name}`);
+        break;
+      }
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+}
+
+// @ts-ignore
+if (import.meta.main) {
+  main();
+}
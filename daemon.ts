@@ -0,0 +1,273 @@
+import { randomBytes } from "node:crypto";
+import { chmod, readFile, unlink, writeFile } from "node:fs/promises";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AutoLogin, describeError, LoginResult } from "./auto-login";
+import { CodeSource } from "./code-source";
+import { hasBearerToken } from "./http-auth";
+import { isLoginError } from "./login-errors";
+import { logger } from "./logger";
+import { SESSION_FORMATS, SessionFormat } from "./session-export";
+
+export interface DaemonConfig {
+  /** TCP port, used unless socket is set. Default: 8790 */
+  port?: number;
+  /** Default: 127.0.0.1 */
+  host?: string;
+  /** Unix socket path to listen on instead of TCP */
+  socket?: string;
+  /**
+   * Required as "Authorization: Bearer <token>". When left out, the one in
+   * tokenFile is used, or a random one is generated and written there.
+   */
+  token?: string;
+  /** Where the token is kept (mode 0600). Default: .daemon-token */
+  tokenFile?: string;
+  /** Account the browser is logged in as; /code defaults to it */
+  email: string;
+  fromEmail: string;
+  /** Default wait for GET /code, in ms */
+  codeTimeout: number;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * GET /code without ?since= takes codes sent this long before the request,
+ * for clients that trigger the email just before asking
+ */
+const CODE_SINCE_SKEW = 30 * 1000;
+
+const CONTENT_TYPES: Record<SessionFormat, string> = {
+  "storage-state": "application/json",
+  cookies: "text/plain; charset=utf-8",
+  auth: "application/json",
+};
+
+/**
+ * Long-running local service that owns the logged-in browser and the mail
+ * connection, so test runners and scripts can share one session instead of
+ * each launching Chromium on the locked browser-data directory.
+ *
+ *   GET  /health                    Whether the browser is logged in
+ *   GET  /session?format=cookies    storage-state (default), cookies or auth
+ *   POST /login                     Log in again now
+ *   GET  /code?alias=&since=&timeout=  Next magic code for an address
+ *
+ * Browser work runs one request at a time; /code only uses the mail source.
+ */
+export class LoginDaemon {
+  private config: DaemonConfig;
+  private autoLogin: AutoLogin;
+  private codeSource: CodeSource;
+  private server: Server | null = null;
+  private token = "";
+  private queue: Promise<unknown> = Promise.resolve();
+  private startedAt = Date.now();
+  private lastLogin: { at: string; result?: LoginResult; error?: string } | null =
+    null;
+
+  /**
+   * autoLogin must have been created with codeSource, so logins and /code
+   * share one mail connection
+   */
+  constructor(config: DaemonConfig, autoLogin: AutoLogin, codeSource: CodeSource) {
+    this.config = config;
+    this.autoLogin = autoLogin;
+    this.codeSource = codeSource;
+  }
+
+  /**
+   * Listens, then logs in. A failed first login leaves the daemon running
+   * so POST /login can retry it.
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+    this.token = await this.resolveToken();
+    logger.addSecret(this.token);
+
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        this.send(res, status, { error: describeError(error) });
+      });
+    });
+
+    const { socket } = this.config;
+    const host = this.config.host ?? "127.0.0.1";
+    const port = this.config.port ?? 8790;
+    if (socket) {
+      // A socket file left by a daemon that didn't shut down cleanly
+      await unlink(socket).catch(() => {});
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      if (socket) {
+        this.server!.listen(socket, () => resolve());
+      } else {
+        this.server!.listen(port, host, () => resolve());
+      }
+    });
+    if (socket) {
+      await chmod(socket, 0o600);
+    }
+    logger.info(
+      `🛰️  Daemon listening on ${socket ? `unix:${socket}` : `http://${host}:${port}`}`
+    );
+
+    await this.login().catch(() => {});
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+      this.server = null;
+      if (this.config.socket) {
+        await unlink(this.config.socket).catch(() => {});
+      }
+    }
+    await this.autoLogin.close();
+    this.codeSource.disconnect();
+  }
+
+  private async resolveToken(): Promise<string> {
+    if (this.config.token) return this.config.token;
+    const file = this.config.tokenFile ?? ".daemon-token";
+    const saved = (await readFile(file, "utf8").catch(() => "")).trim();
+    if (saved) {
+      logger.info(`🔑 No DAEMON_TOKEN set; using the one in ${file}`);
+      return saved;
+    }
+    const token = randomBytes(24).toString("hex");
+    await writeFile(file, `${token}\n`, { mode: 0o600 });
+    logger.info(`🔑 No DAEMON_TOKEN set; generated one in ${file}`);
+    return token;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://daemon");
+    if (!this.isAuthorized(req)) {
+      throw new HttpError(401, "Missing or wrong token");
+    }
+
+    const route = `${req.method} ${url.pathname}`;
+    logger.debug(`Daemon request: ${route}`);
+    switch (route) {
+      case "GET /health":
+        return this.send(res, 200, {
+          ok: true,
+          loggedIn: this.lastLogin?.result !== undefined,
+          email: this.config.email,
+          uptimeMs: Date.now() - this.startedAt,
+          lastLogin: this.lastLogin,
+        });
+
+      case "GET /session": {
+        const format = (url.searchParams.get("format") ?? "storage-state") as SessionFormat;
+        if (!SESSION_FORMATS.includes(format)) {
+          throw new HttpError(
+            400,
+            `Unknown format "${format}" (expected ${SESSION_FORMATS.join(", ")})`
+          );
+        }
+        const content = await this.exclusive(async () => {
+          await this.ensureLoggedIn();
+          return this.autoLogin.readSession(format);
+        });
+        if (content === null) {
+          throw new HttpError(404, "No authToken found in local storage or Onyx");
+        }
+        res.writeHead(200, { "Content-Type": CONTENT_TYPES[format] }).end(content);
+        return;
+      }
+
+      case "POST /login":
+        return this.send(res, 200, await this.login());
+
+      case "GET /code": {
+        const timeout = Number(url.searchParams.get("timeout") ?? NaN);
+        const sinceParam = url.searchParams.get("since");
+        // An old unread code email must not pass for the next one
+        const since = sinceParam
+          ? new Date(/^\d+$/.test(sinceParam) ? Number(sinceParam) : sinceParam)
+          : new Date(Date.now() - CODE_SINCE_SKEW);
+        if (Number.isNaN(since.getTime())) {
+          throw new HttpError(400, `Invalid since "${sinceParam}"`);
+        }
+        try {
+          await this.codeSource.connect();
+          const code = await this.codeSource.waitForCode(
+            this.config.fromEmail,
+            Number.isFinite(timeout) && timeout > 0
+              ? timeout * 1000
+              : this.config.codeTimeout,
+            since,
+            url.searchParams.get("alias") || this.config.email
+          );
+          return this.send(res, 200, { code });
+        } catch (error) {
+          const message = (error as Error).message;
+          throw new HttpError(message.includes("Timeout") ? 504 : 502, message);
+        }
+      }
+
+      default:
+        throw new HttpError(404, `No route for ${route}`);
+    }
+  }
+
+  private login(): Promise<LoginResult> {
+    return this.exclusive(() => this.runLogin());
+  }
+
+  // Called inside exclusive(), like every browser step
+  private async ensureLoggedIn(): Promise<void> {
+    if (this.autoLogin.isBrowserOpen() && (await this.autoLogin.isSessionActive())) {
+      return;
+    }
+    logger.info("🔁 Session not active, logging in before serving it");
+    await this.runLogin();
+  }
+
+  /**
+   * Full login the first time, a re-login in the open browser after that
+   */
+  private async runLogin(): Promise<LoginResult> {
+    const at = new Date().toISOString();
+    try {
+      const result = this.autoLogin.isBrowserOpen()
+        ? await this.autoLogin.reauthenticate()
+        : await this.autoLogin.login();
+      this.lastLogin = { at, result };
+      return result;
+    } catch (error) {
+      this.lastLogin = { at, error: describeError(error) };
+      throw new HttpError(isLoginError(error) ? 502 : 500, describeError(error));
+    }
+  }
+
+  /**
+   * Runs browser work one request at a time
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    return hasBearerToken(req, this.token);
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res
+      .writeHead(status, { "Content-Type": "application/json" })
+      .end(JSON.stringify(body, null, 2));
+  }
+}
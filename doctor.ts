@@ -0,0 +1,318 @@
+import { access, readlink } from "node:fs/promises";
+import { hostname } from "node:os";
+import { join } from "node:path";
+import { chromium, firefox, webkit } from "playwright";
+import { stripEmailTag } from "./auto-login";
+import type { BrowserOptions } from "./browser-options";
+import { EmailMonitor } from "./email-monitor";
+import { createCodeSource, MailSourceConfig } from "./mail-sources";
+import { Profile } from "./profiles";
+
+const ENGINES = { chromium, firefox, webkit };
+
+export type CheckStatus = "pass" | "warn" | "fail" | "skip";
+
+export interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  /** What to do about a warning or failure */
+  hint?: string;
+}
+
+export interface DoctorReport {
+  ok: boolean;
+  checks: CheckResult[];
+}
+
+interface DoctorOptions {
+  profile: Profile;
+  mailSource: MailSourceConfig;
+  /** How far back to look for a magic-code email, in ms. Default: 24h */
+  recentWithin?: number;
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  pass: "✅",
+  warn: "⚠️ ",
+  fail: "❌",
+  skip: "⏭️ ",
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function checkEmail(email: string): CheckResult {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
+    ? { name: "Email", status: "pass", message: email }
+    : {
+        name: "Email",
+        status: "fail",
+        message: `"${email}" is not an email address`,
+        hint: "Set EMAIL in .env or pass --email",
+      };
+}
+
+function checkAppPassword(password: string, mailSource: MailSourceConfig): CheckResult {
+  const name = "App password";
+  if (/["']/.test(password)) {
+    return {
+      name,
+      status: "fail",
+      message: "Contains quote characters",
+      hint: "Remove the quotes around APP_PASSWORD in .env",
+    };
+  }
+
+  // Spaces are stripped when the password is loaded; only mention them
+  const raw = process.env.APP_PASSWORD ?? "";
+  const spaces = /\s/.test(raw) ? " (spaces in .env are ignored)" : "";
+
+  if (mailSource.type === "imap" && mailSource.host.endsWith("gmail.com")) {
+    if (!/^[a-z]{16}$/i.test(password)) {
+      return {
+        name,
+        status: "fail",
+        message: `${password.length} characters, Gmail app passwords are 16 letters${spaces}`,
+        hint: "Create one at https://myaccount.google.com/apppasswords",
+      };
+    }
+  }
+  return { name, status: "pass", message: `${password.length} characters${spaces}` };
+}
+
+async function checkLoginUrl(profile: Profile): Promise<CheckResult> {
+  const name = "Login URL";
+  const url = profile.loginUrl;
+  const { environment } = profile;
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(10000),
+      // Bun's option for the dev server's self-signed certificate
+      ...(environment.ignoreHTTPSErrors ? { tls: { rejectUnauthorized: false } } : {}),
+    });
+    return response.status < 500
+      ? {
+          name,
+          status: "pass",
+          message: `${url} (HTTP ${response.status}, environment ${environment.name})`,
+        }
+      : {
+          name,
+          status: "fail",
+          message: `${url} answered HTTP ${response.status}`,
+        };
+  } catch (error) {
+    return {
+      name,
+      status: "fail",
+      message: `${url} is unreachable: ${errorMessage((error as { cause?: unknown }).cause ?? error)}`,
+      hint: "Check ENVIRONMENT / --env, LOGIN_URL / --url, your network and, for dev, that the dev server is running",
+    };
+  }
+}
+
+async function checkBrowser(options: BrowserOptions): Promise<CheckResult> {
+  if (options.cdpUrl) {
+    const name = "Browser (CDP)";
+    const url = new URL("/json/version", options.cdpUrl).href;
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(5000) });
+      const version = (await response.json()) as { Browser?: string };
+      return { name, status: "pass", message: `${options.cdpUrl} (${version.Browser ?? "unknown"})` };
+    } catch (error) {
+      return {
+        name,
+        status: "fail",
+        message: `${options.cdpUrl} is unreachable: ${errorMessage(error)}`,
+        hint: "Start the browser with --remote-debugging-port=9222, or unset BROWSER_CDP_URL / --cdp",
+      };
+    }
+  }
+
+  const engine = options.engine ?? "chromium";
+  const name = engine[0].toUpperCase() + engine.slice(1);
+  // A channel (e.g. chrome) is installed by its own installer, not Playwright
+  if (options.channel && !options.executablePath) {
+    return { name, status: "skip", message: `Uses the installed ${options.channel} channel` };
+  }
+  const path = options.executablePath ?? ENGINES[engine].executablePath();
+  try {
+    await access(path);
+    return { name, status: "pass", message: path };
+  } catch {
+    return {
+      name,
+      status: "fail",
+      message: `Not installed (expected ${path})`,
+      hint: options.executablePath
+        ? "Check BROWSER_EXECUTABLE"
+        : `Run: bunx playwright install ${engine}`,
+    };
+  }
+}
+
+/**
+ * Chromium marks a profile in use with a SingletonLock symlink pointing at
+ * "<hostname>-<pid>"
+ */
+async function checkBrowserDataLock(userDataDir: string): Promise<CheckResult> {
+  const name = "Browser data";
+  let target: string;
+  try {
+    target = await readlink(join(userDataDir, "SingletonLock"));
+  } catch {
+    return { name, status: "pass", message: `${userDataDir} is not in use` };
+  }
+
+  const match = target.match(/^(.*)-(\d+)$/);
+  if (match && match[1] === hostname()) {
+    try {
+      process.kill(Number(match[2]), 0);
+      return {
+        name,
+        status: "fail",
+        message: `${userDataDir} is locked by running process ${match[2]}`,
+        hint: "Close the other browser or login using this profile first",
+      };
+    } catch {
+      // No such process
+    }
+  }
+  return {
+    name,
+    status: "warn",
+    message: `${userDataDir} has a stale lock (${target})`,
+    hint: "Chromium usually clears it; delete SingletonLock if launching fails",
+  };
+}
+
+/**
+ * Runs the mail checks. IMAP gets separate login, INBOX and recent-code
+ * checks; other sources only a connection check.
+ */
+async function checkMail(options: DoctorOptions): Promise<CheckResult[]> {
+  const { profile, mailSource } = options;
+  const source = createCodeSource(mailSource, {
+    user: stripEmailTag(profile.email),
+    password: profile.appPassword,
+  });
+  const results: CheckResult[] = [];
+  const skip = (name: string): CheckResult => ({
+    name,
+    status: "skip",
+    message: "Skipped, mail connection failed",
+  });
+
+  try {
+    try {
+      await source.connect();
+      results.push({
+        name: "Mail login",
+        status: "pass",
+        message:
+          mailSource.type === "imap"
+            ? `${stripEmailTag(profile.email)} @ ${mailSource.host}:${mailSource.port}`
+            : `Connected (${mailSource.type})`,
+      });
+    } catch (error) {
+      results.push({
+        name: "Mail login",
+        status: "fail",
+        message: errorMessage(error),
+        hint:
+          mailSource.type === "imap"
+            ? "Check the app password and that IMAP is enabled for the mailbox"
+            : undefined,
+      });
+      if (source instanceof EmailMonitor) {
+        results.push(skip("INBOX"));
+      }
+      results.push(skip("Recent magic code"));
+      return results;
+    }
+
+    if (!(source instanceof EmailMonitor)) {
+      results.push({
+        name: "Recent magic code",
+        status: "skip",
+        message: `Not supported for ${mailSource.type}`,
+      });
+      return results;
+    }
+
+    try {
+      const total = await source.inspectInbox();
+      results.push({ name: "INBOX", status: "pass", message: `${total} messages` });
+    } catch (error) {
+      results.push({ name: "INBOX", status: "fail", message: errorMessage(error) });
+      results.push(skip("Recent magic code"));
+      return results;
+    }
+
+    const recentWithin = options.recentWithin ?? 24 * 60 * 60 * 1000;
+    const hours = Math.round(recentWithin / 3600000);
+    try {
+      const latest = await source.findLatestCode(
+        profile.fromEmail,
+        new Date(Date.now() - recentWithin)
+      );
+      results.push(
+        latest
+          ? {
+              name: "Recent magic code",
+              status: "pass",
+              message: `Received at ${latest.date.toISOString()} to ${latest.recipients.join(", ")} (rule ${latest.rule})`,
+            }
+          : {
+              name: "Recent magic code",
+              status: "warn",
+              message: `None from ${profile.fromEmail} in the last ${hours}h`,
+              hint: "Fine if you haven't logged in recently; otherwise check FROM_EMAIL and Gmail filters that skip the inbox",
+            }
+      );
+    } catch (error) {
+      results.push({
+        name: "Recent magic code",
+        status: "fail",
+        message: errorMessage(error),
+      });
+    }
+    return results;
+  } finally {
+    source.disconnect();
+  }
+}
+
+/**
+ * Checks config, the login page, the mailbox and the browser without
+ * logging in. Warnings don't make the report fail.
+ */
+export async function runDoctor(options: DoctorOptions): Promise<DoctorReport> {
+  const { profile, mailSource } = options;
+  const checks: CheckResult[] = [
+    checkEmail(profile.email),
+    checkAppPassword(profile.appPassword, mailSource),
+    await checkLoginUrl(profile),
+    ...(await checkMail(options)),
+    await checkBrowser(profile.browser),
+    // Only a Chromium we launch ourselves leaves a SingletonLock
+    ...((profile.browser.engine ?? "chromium") === "chromium" && !profile.browser.cdpUrl
+      ? [await checkBrowserDataLock(profile.userDataDir)]
+      : []),
+  ];
+  return { ok: checks.every((check) => check.status !== "fail"), checks };
+}
+
+export function formatReport(report: DoctorReport): string {
+  const lines = report.checks.map((check) => {
+    const line = `${STATUS_ICONS[check.status]} ${check.name.padEnd(18)} ${check.message}`;
+    return check.hint && (check.status === "fail" || check.status === "warn")
+      ? `${line}\n   ${"".padEnd(18)} → ${check.hint}`
+      : line;
+  });
+  const failed = report.checks.filter((check) => check.status === "fail").length;
+  lines.push("", report.ok ? "All checks passed" : `${failed} check(s) failed`);
+  return lines.join("\n");
+}
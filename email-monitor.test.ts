@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { CleanupPolicy } from "./code-source";
+import { EmailMonitor, WaitMode } from "./email-monitor";
+import { magicCodeEmail, MockImapServer } from "./fixtures/mock-imap";
+import { logger } from "./logger";
+
+const USER = "tester@example.com";
+const PASSWORD = "mockapppassword";
+const FROM = "concierge@expensify.com";
+const DAY = 24 * 60 * 60 * 1000;
+
+// Date headers only have whole seconds
+const loginStart = () => new Date(Date.now() - 1000);
+
+describe("EmailMonitor against the mock IMAP server", () => {
+  let imap: MockImapServer;
+  let monitor: EmailMonitor | undefined;
+
+  beforeEach(() => {
+    logger.configure({ level: "silent" });
+    imap = new MockImapServer({ user: USER, password: PASSWORD });
+  });
+
+  afterEach(async () => {
+    monitor?.disconnect();
+    monitor = undefined;
+    await imap.close();
+  });
+
+  async function connect(
+    options: { mode?: WaitMode; cleanup?: CleanupPolicy } = {}
+  ): Promise<EmailMonitor> {
+    const port = await imap.listen();
+    monitor = new EmailMonitor({
+      user: USER,
+      password: PASSWORD,
+      host: "127.0.0.1",
+      port,
+      tls: false,
+      pollInterval: 100,
+      ...options,
+    });
+    return monitor;
+  }
+
+  /** Delivers a code email once the watcher has had time to start */
+  function deliverSoon(to: string, code: string): void {
+    setTimeout(() => imap.deliver(magicCodeEmail(to, code)), 300);
+  }
+
+  for (const [mode, idle] of [
+    ["push", true],
+    ["poll", true],
+    ["push", false],
+  ] as [WaitMode, boolean][]) {
+    test(`${mode} mode${idle ? "" : " without IDLE"} finds a code that arrives while waiting`, async () => {
+      imap = new MockImapServer({ user: USER, password: PASSWORD, idle });
+      const source = await connect({ mode });
+
+      deliverSoon(USER, "314159");
+      const code = await source.waitForCode(FROM, 5000, loginStart());
+
+      expect(code).toBe("314159");
+    });
+  }
+
+  test("routes each code to the request for its +tag alias", async () => {
+    const source = await connect();
+    const since = loginStart();
+
+    const first = source.waitForCode(FROM, 5000, since, "tester+one@example.com");
+    const second = source.waitForCode(FROM, 5000, since, "tester+two@example.com");
+    deliverSoon("tester+two@example.com", "222222");
+    deliverSoon("tester+one@example.com", "111111");
+
+    expect(await Promise.all([first, second])).toEqual(["111111", "222222"]);
+  });
+
+  for (const mode of ["push", "poll"] as WaitMode[]) {
+    test(`${mode} mode serves requests made before INBOX is open`, async () => {
+      imap.deliver(magicCodeEmail("tester+one@example.com", "111111"));
+      imap.deliver(magicCodeEmail("tester+two@example.com", "222222"));
+      const source = await connect({ mode });
+      await source.connect();
+      const since = loginStart();
+
+      // Neither call waits, so the second arrives while INBOX is opening
+      const first = source.waitForCode(FROM, 5000, since, "tester+one@example.com");
+      const second = source.waitForCode(FROM, 5000, since, "tester+two@example.com");
+      const third = source.waitForCode(FROM, 5000, since, "tester+three@example.com");
+      deliverSoon("tester+three@example.com", "333333");
+
+      expect(await Promise.all([first, second, third])).toEqual(["111111", "222222", "333333"]);
+    });
+  }
+
+  test("skips unread codes sent before the login started", async () => {
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    imap.deliver(magicCodeEmail(USER, "999999", { date: hourAgo }), hourAgo);
+    const source = await connect();
+
+    deliverSoon(USER, "123456");
+    const code = await source.waitForCode(FROM, 5000, loginStart());
+
+    expect(code).toBe("123456");
+    expect(imap.messages[0].flags.has("\\Seen")).toBe(false);
+  });
+
+  test("ignores codes from other senders", async () => {
+    imap.deliver(magicCodeEmail(USER, "999999", { from: "phish@example.com" }));
+    const source = await connect();
+
+    deliverSoon(USER, "123456");
+    expect(await source.waitForCode(FROM, 5000)).toBe("123456");
+  });
+
+  test("marks the used email read by default", async () => {
+    const source = await connect();
+
+    deliverSoon(USER, "123456");
+    await source.waitForCode(FROM, 5000, loginStart());
+    // Cleanup runs after the code is handed over
+    await Bun.sleep(200);
+
+    expect(imap.messages).toHaveLength(1);
+    expect(imap.messages[0].flags.has("\\Seen")).toBe(true);
+  });
+
+  test("moves the used email to a new folder", async () => {
+    const source = await connect({ cleanup: { action: "move", folder: "Codes" } });
+
+    deliverSoon(USER, "123456");
+    await source.waitForCode(FROM, 5000, loginStart());
+    await Bun.sleep(200);
+
+    expect(imap.messages).toHaveLength(0);
+    expect(imap.folders.get("Codes")).toHaveLength(1);
+  });
+
+  test("deletes the used email", async () => {
+    const source = await connect({ cleanup: { action: "delete" } });
+
+    deliverSoon(USER, "123456");
+    await source.waitForCode(FROM, 5000, loginStart());
+    await Bun.sleep(200);
+
+    expect(imap.messages).toHaveLength(0);
+  });
+
+  test("leaves mail the user flagged \\Deleted on a server without UIDPLUS", async () => {
+    imap = new MockImapServer({ user: USER, password: PASSWORD, uidplus: false });
+    const mine = imap.deliver("From: friend@example.com\r\nSubject: Hi\r\n\r\nHello\r\n");
+    mine.flags.add("\\Deleted");
+    const source = await connect({ cleanup: { action: "delete" } });
+
+    deliverSoon(USER, "123456");
+    await source.waitForCode(FROM, 5000, loginStart());
+    await Bun.sleep(200);
+
+    expect(imap.messages.map((m) => m.uid)).toEqual([mine.uid, 2]);
+    expect(imap.messages[1].flags.has("\\Deleted")).toBe(true);
+  });
+
+  test("times out when no code arrives", async () => {
+    const source = await connect();
+
+    await expect(source.waitForCode(FROM, 500, loginStart())).rejects.toThrow("Timeout");
+  });
+
+  describe("purge", () => {
+    beforeEach(() => {
+      const old = new Date(Date.now() - 10 * DAY);
+      imap.deliver(magicCodeEmail(USER, "100001", { date: old }), old);
+      imap.deliver(magicCodeEmail(USER, "100002", { date: old }), old);
+      imap.deliver(magicCodeEmail(USER, "100003"));
+    });
+
+    test("moves codes older than the cutoff, read or not", async () => {
+      imap.messages[0].flags.add("\\Seen");
+      const source = await connect();
+
+      const count = await source.purge(FROM, new Date(Date.now() - 5 * DAY), {
+        action: "move",
+        folder: "Old codes",
+      });
+
+      expect(count).toBe(2);
+      expect(imap.messages.map((m) => m.uid)).toEqual([3]);
+      expect(imap.folders.get("Old codes")).toHaveLength(2);
+    });
+
+    test("only counts on a dry run", async () => {
+      const source = await connect();
+
+      const count = await source.purge(
+        FROM,
+        new Date(Date.now() - 5 * DAY),
+        { action: "delete" },
+        true
+      );
+
+      expect(count).toBe(2);
+      expect(imap.messages).toHaveLength(3);
+    });
+  });
+});
@@ -1,40 +1,128 @@
 import Imap from "imap";
-import { simpleParser } from "mailparser";
+import { simpleParser, ParsedMail } from "mailparser";
+import type { Readable } from "node:stream";
+import { CodeCandidate, CodeRegistry, CodeRequest } from "./code-registry";
+import type { CodeRule } from "./code-rules";
+import {
+  candidateFromParsedMail,
+  CleanupPolicy,
+  CodeSource,
+  recipientsOf,
+} from "./code-source";
+import { logger } from "./logger";
 
-interface EmailConfig {
+/**
+ * "push" waits on IMAP IDLE and new-mail events, falling back to polling
+ * when the server doesn't advertise IDLE. "poll" always searches on an interval.
+ */
+export type WaitMode = "push" | "poll";
+
+export interface EmailConfig {
   user: string;
   password: string;
   host: string;
   port: number;
   tls: boolean;
+  mode?: WaitMode;
+  pollInterval?: number;
+  keepaliveInterval?: number;
+  idleInterval?: number;
+  maxReconnectAttempts?: number;
+  /** Code extraction rules. Default: DEFAULT_CODE_RULES */
+  rules?: CodeRule[];
+  /** What to do with emails whose code was used. Default: mark read */
+  cleanup?: CleanupPolicy;
+}
+
+interface MagicCodeEmail extends CodeCandidate {
+  uid: number;
+}
+
+type SearchCriterion = string | [string, Date];
+
+/**
+ * Day before the oldest request's sinceTime, or undefined if any request
+ * takes mail of any age. IMAP SINCE only compares dates, in the server's
+ * time zone, so a day of slack keeps it from skipping mail.
+ */
+function earliestSince(requests: CodeRequest[]): Date | undefined {
+  if (requests.length === 0 || requests.some((r) => !r.sinceTime)) return undefined;
+  const oldest = Math.min(...requests.map((r) => r.sinceTime!.getTime()));
+  return new Date(oldest - 24 * 60 * 60 * 1000);
 }
 
-export class EmailMonitor {
+export class EmailMonitor implements CodeSource {
   private imap: Imap;
   private config: EmailConfig;
   private connected: boolean = false;
+  private closing: boolean = false;
+  private connecting: Promise<void> | null = null;
+  private reconnecting: Promise<void> | null = null;
+  private pending = new CodeRegistry();
+  private watching: boolean = false;
+  private checking: boolean = false;
+  private recheck: boolean = false;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  // INBOX being selected for the watcher; checks must wait for it
+  private inboxOpening: Promise<Imap.Box> | null = null;
 
   constructor(config: EmailConfig) {
     this.config = config;
-    this.imap = new Imap({
-      user: config.user,
-      password: config.password,
-      host: config.host,
-      port: config.port,
-      tls: config.tls,
+    this.imap = this.createClient();
+  }
+
+  private createClient(): Imap {
+    const imap = new Imap({
+      user: this.config.user,
+      password: this.config.password,
+      host: this.config.host,
+      port: this.config.port,
+      tls: this.config.tls,
+      // NOOP every keepaliveInterval, re-issue IDLE every idleInterval
+      // (servers drop IDLE sessions after ~30 minutes)
+      keepalive: {
+        interval: this.config.keepaliveInterval ?? 10000,
+        idleInterval: this.config.idleInterval ?? 300000,
+        forceNoop: false,
+      },
     });
+    imap.on("close", () => {
+      // A client replaced by reconnect/disconnect may close late
+      if (this.imap === imap) {
+        this.connected = false;
+      }
+    });
+    return imap;
   }
 
   async connect(): Promise<void> {
     if (this.connected) return;
 
+    // Logins sharing this monitor all wait on the same attempt
+    if (!this.connecting) {
+      this.connecting = this.openConnection().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private openConnection(): Promise<void> {
+    this.closing = false;
+
     return new Promise((resolve, reject) => {
-      this.imap.once("ready", () => {
+      const onReady = () => {
         this.connected = true;
-        console.log("✅ Connected to email server");
+        this.imap.removeListener("error", onError);
+        // Errors after login surface as "close" and are handled by reconnect
+        this.imap.on("error", (err: Error) => {
+          logger.warn("⚠️  IMAP connection error", { error: err });
+        });
+        logger.info("✅ Connected to email server");
         resolve();
-      });
-      this.imap.once("error", (err: Error) => {
+      };
+      const onError = (err: Error) => {
+        this.imap.removeListener("ready", onReady);
         const errorMessage = err.message || err.toString();
 
         // Check for specific Gmail App Password error
@@ -42,22 +130,20 @@ export class EmailMonitor {
           errorMessage.includes("Application-specific password required") ||
           (errorMessage.includes("ALERT") && errorMessage.includes("185833"))
         ) {
-          console.error("\n❌ Gmail App Password Required");
-          console.error("\n📋 To fix this:");
-          console.error("1. Enable 2-Step Verification:");
-          console.error("   https://myaccount.google.com/security");
-          console.error("2. Create an App Password:");
-          console.error("   https://myaccount.google.com/apppasswords");
-          console.error("3. Make sure IMAP is enabled in Gmail:");
-          console.error(
+          logger.error("\n❌ Gmail App Password Required");
+          logger.error("\n📋 To fix this:");
+          logger.error("1. Enable 2-Step Verification:");
+          logger.error("   https://myaccount.google.com/security");
+          logger.error("2. Create an App Password:");
+          logger.error("   https://myaccount.google.com/apppasswords");
+          logger.error("3. Make sure IMAP is enabled in Gmail:");
+          logger.error(
             "   Gmail → Settings → Forwarding and POP/IMAP → Enable IMAP"
           );
-          console.error("\n💡 App Passwords are 16 characters (no spaces)");
-          console.error("   Example: abcd efgh ijkl mnop");
-          console.error("\n🔐 Store it in Keychain:");
-          console.error(
-            `   security add-generic-password -s "expensify-auto-login" -a "${this.config.user}" -w "YOUR_16_CHAR_APP_PASSWORD"`
-          );
+          logger.error("\n💡 App Passwords are 16 characters (no spaces)");
+          logger.error("   Example: abcd efgh ijkl mnop");
+          logger.error("\n🔐 Store it in your keyring instead of .env:");
+          logger.error(`   bun run credentials set ${this.config.user}`);
           reject(
             new Error("Gmail App Password required. See instructions above.")
           );
@@ -70,32 +156,32 @@ export class EmailMonitor {
           errorMessage.includes("AUTHENTICATIONFAILED") ||
           errorMessage.includes("authentication")
         ) {
-          console.error("\n❌ Gmail Authentication Failed");
-          console.error("\n📋 Possible causes:");
-          console.error(
-            "1. APP_PASSWORD in .env is incorrect or not a valid App Password"
+          logger.error("\n❌ Gmail Authentication Failed");
+          logger.error("\n📋 Possible causes:");
+          logger.error(
+            "1. The stored App Password (APP_PASSWORD in .env, or the keyring) is incorrect"
           );
-          console.error("2. App Password has expired or been revoked");
-          console.error("3. Password contains extra spaces or characters");
-          console.error("\n💡 To fix:");
-          console.error(
+          logger.error("2. App Password has expired or been revoked");
+          logger.error("3. Password contains extra spaces or characters");
+          logger.error("\n💡 To fix:");
+          logger.error(
             "1. Verify your App Password is correct (16 characters, no spaces)"
           );
-          console.error(
+          logger.error(
             "2. Create a new App Password: https://myaccount.google.com/apppasswords"
           );
-          console.error(
-            "3. Update .env file: APP_PASSWORD=your-16-char-password"
+          logger.error(
+            `3. Update it: APP_PASSWORD in .env, or bun run credentials set ${this.config.user}`
           );
-          console.error(
+          logger.error(
             "4. Make sure there are no quotes or extra spaces around the password"
           );
-          console.error("\n🔍 Debug info:");
+          logger.error("\n🔍 Debug info:");
           const passwordLength = this.config.password
             ? this.config.password.length
             : 0;
-          console.error(`   Password length: ${passwordLength} characters`);
-          console.error(`   Email: ${this.config.user}`);
+          logger.error(`   Password length: ${passwordLength} characters`);
+          logger.error(`   Email: ${this.config.user}`);
           reject(
             new Error(
               "Gmail authentication failed. Check your APP_PASSWORD in .env file."
@@ -104,279 +190,432 @@ export class EmailMonitor {
           return;
         }
 
-        console.error("❌ IMAP connection error:", err);
+        logger.error("❌ IMAP connection error", { error: err });
         reject(err);
-      });
+      };
+      this.imap.once("ready", onReady);
+      this.imap.once("error", onError);
       this.imap.connect();
     });
   }
 
+  private reconnect(): Promise<void> {
+    if (!this.reconnecting) {
+      this.reconnecting = this.reconnectWithBackoff().finally(() => {
+        this.reconnecting = null;
+      });
+    }
+    return this.reconnecting;
+  }
+
+  /**
+   * Replaces a dropped connection with a fresh client, backing off
+   * exponentially between attempts
+   */
+  private async reconnectWithBackoff(): Promise<void> {
+    const maxAttempts = this.config.maxReconnectAttempts ?? 5;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const delay = Math.min(1000 * 2 ** (attempt - 1), 30000);
+      logger.info(
+        `🔄 Reconnecting to email server in ${delay / 1000}s (attempt ${attempt}/${maxAttempts})`
+      );
+      await new Promise((r) => setTimeout(r, delay));
+      if (this.closing) {
+        throw new Error("Email monitor disconnected");
+      }
+
+      this.imap.removeAllListeners();
+      this.imap.on("error", () => {});
+      this.imap.destroy();
+      this.imap = this.createClient();
+      try {
+        await this.openConnection();
+        return;
+      } catch (error) {
+        if (attempt === maxAttempts) throw error;
+      }
+    }
+  }
+
+  private supportsIdle(): boolean {
+    return this.imap.serverSupports("IDLE");
+  }
+
   /**
    * Waits for Expensify magic code email
    * Email subject format: "Expensify magic code: 147826"
+   *
+   * Concurrent calls share one mailbox watcher; each code is routed to the
+   * request whose recipient it was sent to.
    */
   async waitForCode(
     fromEmail: string = "noreply@expensify.com",
     maxWaitTime: number = 60000,
-    sinceTime?: Date
+    sinceTime?: Date,
+    recipient?: string
   ): Promise<string> {
     if (!this.connected) {
       await this.connect();
     }
 
-    return new Promise((resolve, reject) => {
-      const startTime = Date.now();
+    logger.info(
+      `⏳ Waiting for Expensify magic code email${
+        recipient ? ` to ${recipient}` : ""
+      }...`
+    );
 
-      const checkEmail = async () => {
-        if (Date.now() - startTime > maxWaitTime) {
-          reject(new Error("⏱️  Timeout waiting for email"));
-          return;
-        }
+    const code = this.pending.add(
+      { fromEmail, sinceTime, recipient },
+      maxWaitTime
+    );
+    this.startWatching();
 
-        try {
-          await this.openInbox();
-          const code = await this.findCode(fromEmail, sinceTime);
-          if (code) {
-            console.log(`📧 Code found in email: ${code}`);
-            resolve(code);
-          } else {
-            // Poll every 2 seconds
-            process.stdout.write(".");
-            setTimeout(checkEmail, 2000);
-          }
-        } catch (error) {
-          reject(error);
-        }
+    try {
+      const result = await code;
+      logger.info("📧 Code found in email", { code: result });
+      return result;
+    } finally {
+      if (this.pending.size === 0) {
+        this.stopWatching();
+      }
+    }
+  }
+
+  /**
+   * Push mode keeps INBOX selected so the client sits in IDLE, and searches
+   * again whenever the server announces new mail. A dropped connection is
+   * re-established and the inbox re-checked, since mail may have arrived
+   * while we were offline. Poll mode searches on an interval.
+   */
+  private startWatching(): void {
+    if (this.watching) {
+      // A new request may match mail that's already there, once INBOX is
+      // open. Failing twice is harmless: the watcher fails them too.
+      (this.inboxOpening ?? Promise.resolve())
+        .then(() => this.check())
+        .catch((error) => this.fail(error));
+      return;
+    }
+    this.watching = true;
+
+    const push = (this.config.mode ?? "push") === "push";
+    if (push && !this.supportsIdle()) {
+      logger.info("ℹ️  Server doesn't support IDLE, falling back to polling");
+    }
+
+    if (push && this.supportsIdle()) {
+      this.attachPushListeners();
+      this.selectInbox()
+        .then(() => this.check())
+        .catch((error) => this.fail(error));
+    } else {
+      const poll = async () => {
+        await this.selectInbox()
+          .then(() => this.check())
+          .catch((error) => this.fail(error));
+        if (!this.watching) return;
+        this.pollTimer = setTimeout(poll, this.config.pollInterval ?? 2000);
       };
+      poll();
+    }
+  }
+
+  private stopWatching(): void {
+    this.watching = false;
+    this.inboxOpening = null;
+    this.imap.removeListener("mail", this.onMail);
+    this.imap.removeListener("close", this.onClose);
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private attachPushListeners(): void {
+    this.imap.on("mail", this.onMail);
+    this.imap.once("close", this.onClose);
+  }
+
+  private onMail = (count: number) => {
+    logger.debug(`📬 ${count} new email(s) arrived`);
+    this.check();
+  };
 
-      console.log("⏳ Waiting for Expensify magic code email...");
-      checkEmail();
+  private onClose = async () => {
+    if (!this.watching || this.closing) return;
+    try {
+      await this.reconnect();
+      if (!this.watching) return;
+      this.attachPushListeners();
+      await this.selectInbox();
+      await this.check();
+    } catch (error) {
+      this.fail(error as Error);
+    }
+  };
+
+  private fail(error: Error): void {
+    this.stopWatching();
+    this.pending.failAll(error);
+  }
+
+  private async check(): Promise<void> {
+    if (this.checking) {
+      // Mail arrived mid-search; run once more when the current one ends
+      this.recheck = true;
+      return;
+    }
+    this.checking = true;
+    try {
+      do {
+        this.recheck = false;
+        await this.routeCodes();
+      } while (this.recheck && this.pending.size > 0);
+    } catch (error) {
+      this.fail(error as Error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Fetches unseen magic-code emails and hands them, newest first, to the
+   * pending requests. Only emails that were claimed are cleaned up.
+   */
+  private async routeCodes(): Promise<void> {
+    const fromEmails = new Set(
+      this.pending.requests().map((r) => r.fromEmail)
+    );
+
+    for (const fromEmail of fromEmails) {
+      const since = earliestSince(
+        this.pending.requests().filter((r) => r.fromEmail === fromEmail)
+      );
+      const emails = await this.findCodes(
+        fromEmail,
+        since ? ["UNSEEN", ["SINCE", since]] : ["UNSEEN"]
+      );
+      emails.sort((a, b) => b.date.getTime() - a.date.getTime());
+
+      const used = emails
+        .filter((email) => this.pending.offer(email))
+        .map((email) => email.uid);
+      if (used.length > 0) {
+        await this.cleanUp(used).catch((error) => {
+          logger.warn("Warning: Could not clean up used email", { error });
+        });
+      }
+    }
+  }
+
+  /**
+   * Marks the emails read, then moves or deletes them as the policy says.
+   * A move creates the folder (Gmail label) if it doesn't exist yet.
+   */
+  private async cleanUp(
+    uids: number[],
+    policy: CleanupPolicy = this.config.cleanup ?? { action: "mark-read" }
+  ): Promise<void> {
+    const run = (op: (done: (err: Error) => void) => void) =>
+      new Promise<void>((resolve, reject) =>
+        op((err) => (err ? reject(err) : resolve()))
+      );
+
+    await run((done) => this.imap.addFlags(uids, "\\Seen", done));
+
+    if (policy.action === "move") {
+      const folder = policy.folder!;
+      try {
+        await run((done) => this.imap.move(uids, folder, done));
+      } catch (error) {
+        if ((error as { textCode?: string }).textCode !== "TRYCREATE") throw error;
+        logger.info(`📁 Creating mail folder "${folder}"`);
+        await run((done) => this.imap.addBox(folder, done));
+        await run((done) => this.imap.move(uids, folder, done));
+      }
+    } else if (policy.action === "delete") {
+      await run((done) => this.imap.addFlags(uids, "\\Deleted", done));
+      // A plain EXPUNGE would also remove the user's own mail flagged
+      // \Deleted, so without UIDPLUS the emails are only flagged
+      if (this.imap.serverSupports("UIDPLUS")) {
+        await run((done) => this.imap.expunge(uids, done));
+      } else {
+        logger.warn(
+          "⚠️  The mail server can't expunge single emails (no UIDPLUS); used code emails are flagged \\Deleted but left in place"
+        );
+      }
+    }
+    logger.debug(`🧹 Cleaned up ${uids.length} used email(s)`, {
+      action: policy.action,
     });
   }
 
-  private async openInbox(): Promise<void> {
+  /**
+   * Opens INBOX for the watcher, shared by requests that arrive meanwhile
+   */
+  private selectInbox(): Promise<Imap.Box> {
+    this.inboxOpening = this.openInbox();
+    return this.inboxOpening;
+  }
+
+  private async openInbox(): Promise<Imap.Box> {
     return new Promise((resolve, reject) => {
       this.imap.openBox("INBOX", false, (err, box) => {
         if (err) {
           reject(err);
         } else {
-          resolve();
+          resolve(box);
         }
       });
     });
   }
 
-  private async findCode(
+  /**
+   * Opens INBOX and returns how many messages it holds. For diagnostics.
+   */
+  async inspectInbox(): Promise<number> {
+    await this.connect();
+    return (await this.openInbox()).messages.total;
+  }
+
+  /**
+   * Newest magic-code email received since `since`, read or not. Nothing is
+   * marked as read. For diagnostics.
+   */
+  async findLatestCode(
+    fromEmail: string,
+    since: Date
+  ): Promise<CodeCandidate | null> {
+    await this.connect();
+    await this.openInbox();
+    // IMAP SINCE only compares dates, not times
+    const emails = (await this.findCodes(fromEmail, [["SINCE", since]])).filter(
+      (email) => email.date >= since
+    );
+    emails.sort((a, b) => b.date.getTime() - a.date.getTime());
+    return emails[0] ?? null;
+  }
+
+  /**
+   * Moves or deletes every magic-code email received before `before`, read
+   * or not. With dryRun nothing changes. Returns how many emails matched.
+   */
+  async purge(
+    fromEmail: string,
+    before: Date,
+    policy: CleanupPolicy,
+    dryRun: boolean = false
+  ): Promise<number> {
+    await this.connect();
+    await this.openInbox();
+    const emails = await this.findCodes(fromEmail, [["BEFORE", before]]);
+    if (emails.length > 0 && !dryRun) {
+      await this.cleanUp(
+        emails.map((email) => email.uid),
+        policy
+      );
+    }
+    return emails.length;
+  }
+
+  /**
+   * Magic-code emails from fromEmail matching IMAP search criteria: unread
+   * ones by default, or e.g. [["SINCE", date]]. Bodies are fetched with
+   * BODY.PEEK, so nothing is marked as read.
+   */
+  private async findCodes(
     fromEmail: string,
-    sinceTime?: Date
-  ): Promise<string | null> {
+    criteria: SearchCriterion[] = ["UNSEEN"]
+  ): Promise<MagicCodeEmail[]> {
     return new Promise((resolve, reject) => {
       // Search for unread emails from Expensify
-      console.log(
-        `\n🔍 Searching for emails from: ${fromEmail}${
-          sinceTime ? ` (after ${sinceTime.toISOString()})` : ""
-        }`
-      );
+      logger.debug(`🔍 Searching for emails from: ${fromEmail}`);
       this.imap.search(
-        ["UNSEEN", ["FROM", fromEmail], ["SUBJECT", "Expensify magic code"]],
+        // No SUBJECT criterion: localized subjects are left to the code rules
+        [...criteria, ["FROM", fromEmail]],
         (err, results) => {
           if (err) {
             reject(err);
             return;
           }
 
-          console.log(`🔍 Found ${results?.length || 0} matching emails`);
+          logger.debug(`🔍 Found ${results?.length || 0} matching emails`);
 
           if (!results || results.length === 0) {
-            resolve(null);
+            resolve([]);
             return;
           }
 
-          // Fetch all matching emails to find one with valid timestamp
           const fetch = this.imap.fetch(results, { bodies: "" });
-          let resolved = false;
-          const validEmails: { uid: number; code: string; date: Date }[] = [];
-          let pendingCount = results.length;
+          const parsing: Promise<MagicCodeEmail | null>[] = [];
 
           fetch.on("message", (msg, seqno) => {
-            // Wait for attributes to get UID, then process body
-            const uidPromise = new Promise<number | undefined>((resolveUid) => {
-              msg.once("attributes", (attrs) => {
-                resolveUid(attrs.uid);
-              });
-              
-              // Fallback: if attributes never fires, resolve with undefined after timeout
-              setTimeout(() => resolveUid(undefined), 1000);
+            let uid: number | undefined;
+            let body: Promise<ParsedMail> | undefined;
+
+            msg.once("attributes", (attrs) => {
+              uid = attrs.uid;
             });
-            
-            msg.on("body", async (stream) => {
-              // Wait for UID from attributes event
-              const uid = await uidPromise;
-              
-              // If no UID, skip this message
-              if (!uid || typeof uid !== 'number') {
-                console.warn(`⚠️  Could not get UID for message ${seqno}, skipping`);
-                pendingCount--;
-                if (pendingCount === 0 && !resolved) {
-                  if (validEmails.length > 0) {
-                    validEmails.sort(
-                      (a, b) => b.date.getTime() - a.date.getTime()
-                    );
-                    const best = validEmails[0];
-                    if (best.uid) {
-                      this.imap.addFlags(best.uid, "\\Seen", (flagErr) => {
-                        if (flagErr)
-                          console.warn(
-                            "Warning: Could not mark email as read",
-                            flagErr
-                          );
-                      });
-                    }
-                    resolved = true;
-                    resolve(best.code);
-                  } else {
-                    resolved = true;
-                    resolve(null);
-                  }
-                }
-                return;
-              }
-              
-              try {
-                const parsed = await simpleParser(stream);
-                const subject = parsed.subject || "";
-                const emailDate = parsed.date;
-                console.log(
-                  `📧 Processing email: "${subject}" (date: ${
-                    emailDate?.toISOString() || "unknown"
-                  })`
-                );
-
-                // Check if email was sent after sinceTime
-                if (sinceTime && emailDate && emailDate < sinceTime) {
-                  console.log(`⏭️  Skipping old email (before login started)`);
-                  pendingCount--;
-                  if (pendingCount === 0 && !resolved) {
-                    // All emails processed, return the most recent valid one
-                    if (validEmails.length > 0) {
-                      validEmails.sort(
-                        (a, b) => b.date.getTime() - a.date.getTime()
+            msg.on("body", (stream) => {
+              body = simpleParser(stream as Readable);
+            });
+
+            parsing.push(
+              new Promise((resolveEmail) => {
+                msg.once("end", async () => {
+                  try {
+                    const parsed = await body;
+                    if (!uid || !parsed) {
+                      logger.warn(
+                        `⚠️  Could not get UID for message ${seqno}, skipping`
                       );
-                      const best = validEmails[0];
-                      // Mark email as read
-                      if (best.uid) {
-                        this.imap.addFlags(best.uid, "\\Seen", (flagErr) => {
-                          if (flagErr)
-                            console.warn(
-                              "Warning: Could not mark email as read",
-                              flagErr
-                            );
-                        });
-                      }
-                      resolved = true;
-                      resolve(best.code);
-                    } else {
-                      resolved = true;
-                      resolve(null);
-                    }
-                  }
-                  return;
-                }
-
-                // Extract code from subject line: "Expensify magic code: 147826"
-                const codeMatch = subject.match(
-                  /Expensify magic code:\s*(\d+)/
-                );
-
-                let code: string | null = null;
-                if (codeMatch && codeMatch[1]) {
-                  code = codeMatch[1];
-                  console.log(`✅ Extracted code: ${code}`);
-                } else {
-                  // Fallback: try to extract from email body
-                  const text = parsed.text || parsed.html || "";
-                  const bodyCodeMatch = text.match(/(\d{6})/); // 6-digit code
-                  if (bodyCodeMatch && bodyCodeMatch[1]) {
-                    code = bodyCodeMatch[1];
-                    console.log(`✅ Extracted code from body: ${code}`);
-                  }
-                }
-
-                if (code && emailDate && uid) {
-                  validEmails.push({ uid, code, date: emailDate });
-                }
-
-                pendingCount--;
-                if (pendingCount === 0 && !resolved) {
-                  // All emails processed, return the most recent valid one
-                  if (validEmails.length > 0) {
-                    validEmails.sort(
-                      (a, b) => b.date.getTime() - a.date.getTime()
-                    );
-                    const best = validEmails[0];
-                    // Mark email as read
-                    if (best.uid) {
-                      this.imap.addFlags(best.uid, "\\Seen", (flagErr) => {
-                        if (flagErr)
-                          console.warn(
-                            "Warning: Could not mark email as read",
-                            flagErr
-                          );
-                      });
-                    }
-                    resolved = true;
-                    resolve(best.code);
-                  } else {
-                    console.log(`❌ No valid code found in emails`);
-                    resolved = true;
-                    resolve(null);
-                  }
-                }
-              } catch (parseError) {
-                console.error("Error parsing email:", parseError);
-                pendingCount--;
-                if (pendingCount === 0 && !resolved) {
-                  if (validEmails.length > 0) {
-                    validEmails.sort(
-                      (a, b) => b.date.getTime() - a.date.getTime()
-                    );
-                    const best = validEmails[0];
-                    if (best.uid) {
-                      this.imap.addFlags(best.uid, "\\Seen", (flagErr) => {
-                        if (flagErr)
-                          console.warn(
-                            "Warning: Could not mark email as read",
-                            flagErr
-                          );
-                      });
+                      resolveEmail(null);
+                      return;
                     }
-                    resolved = true;
-                    resolve(best.code);
-                  } else {
-                    resolved = true;
-                    resolve(null);
+                    resolveEmail(this.toCandidate(uid, parsed));
+                  } catch (parseError) {
+                    logger.error("Error parsing email", { error: parseError });
+                    resolveEmail(null);
                   }
-                }
-              }
-            });
+                });
+              })
+            );
           });
 
-          fetch.once("error", (err) => {
-            if (!resolved) {
-              resolved = true;
-              reject(err);
-            }
+          fetch.once("error", reject);
+          fetch.once("end", async () => {
+            const emails = await Promise.all(parsing);
+            resolve(emails.filter((e): e is MagicCodeEmail => e !== null));
           });
         }
       );
     });
   }
 
+  private toCandidate(uid: number, parsed: ParsedMail): MagicCodeEmail | null {
+    const subject = parsed.subject || "";
+    const recipients = recipientsOf(parsed);
+    logger.debug(
+      `📧 Processing email: "${subject}" to ${recipients.join(", ")} (date: ${
+        parsed.date?.toISOString() || "unknown"
+      })`
+    );
+
+    const candidate = candidateFromParsedMail(parsed, undefined, this.config.rules);
+    if (!candidate || !parsed.date) return null;
+    return { uid, ...candidate };
+  }
+
   disconnect(): void {
+    this.closing = true;
+    this.stopWatching();
     if (this.connected) {
       this.imap.end();
       this.connected = false;
-      console.log("📧 Disconnected from email server");
+      // Fresh client so a later connect() (e.g. re-login) starts clean
+      this.imap = this.createClient();
+      logger.info("📧 Disconnected from email server");
     }
   }
 }
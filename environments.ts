@@ -0,0 +1,85 @@
+import type { SiteAdapter } from "./site-adapters";
+
+/**
+ * A built-in Expensify deployment: where to log in, who sends the magic
+ * code and how to tell the login worked
+ */
+export interface Environment {
+  name: string;
+  description: string;
+  loginUrl: string;
+  fromEmail: string;
+  /** Built-in site adapter for the login page */
+  siteAdapter: string;
+  /** Logged-in selectors tried before the adapter's own */
+  success?: string[];
+  /** Accept self-signed TLS certificates, as the local dev server uses */
+  ignoreHTTPSErrors?: boolean;
+}
+
+export const DEFAULT_ENVIRONMENT = "production";
+
+// New Expensify's signed-in sidebar (testID, rendered as data-testid on web)
+const SIDEBAR = '[data-testid="BaseSidebarScreen"]';
+
+export const ENVIRONMENTS: Record<string, Environment> = {
+  dev: {
+    name: "dev",
+    description: "Local New Expensify dev server (npm run web)",
+    loginUrl: "https://dev.new.expensify.com:8082/",
+    fromEmail: "concierge@expensify.com",
+    siteAdapter: "newdot",
+    success: [SIDEBAR],
+    ignoreHTTPSErrors: true,
+  },
+  staging: {
+    name: "staging",
+    description: "New Expensify staging",
+    loginUrl: "https://staging.new.expensify.com/",
+    fromEmail: "concierge@expensify.com",
+    siteAdapter: "newdot",
+    success: [SIDEBAR],
+  },
+  production: {
+    name: "production",
+    description: "New Expensify",
+    loginUrl: "https://new.expensify.com/",
+    fromEmail: "concierge@expensify.com",
+    siteAdapter: "newdot",
+    success: [SIDEBAR],
+  },
+  olddot: {
+    name: "olddot",
+    description: "Expensify Classic",
+    loginUrl: "https://www.expensify.com/",
+    fromEmail: "concierge@expensify.com",
+    siteAdapter: "olddot",
+  },
+};
+
+export function getEnvironment(name: string = DEFAULT_ENVIRONMENT): Environment {
+  const environment = ENVIRONMENTS[name];
+  if (!environment) {
+    throw new Error(
+      `Unknown environment "${name}" (expected ${Object.keys(ENVIRONMENTS).join(", ")})`
+    );
+  }
+  return environment;
+}
+
+/**
+ * The adapter with the environment's success selectors tried first
+ */
+export function adapterForEnvironment(
+  adapter: SiteAdapter,
+  environment: Environment
+): SiteAdapter {
+  if (!environment.success?.length) return adapter;
+  return {
+    ...adapter,
+    selectors: {
+      ...adapter.selectors,
+      success: [...environment.success, ...adapter.selectors.success],
+    },
+  };
+}
@@ -0,0 +1,453 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { randomBytes, randomInt, randomUUID } from "node:crypto";
+import { totp } from "../totp";
+
+/**
+ * How the fake login page behaves:
+ * - "normal": email step, then code step, then the logged-in page
+ * - "invalid-code" / "expired-code": every code is rejected with that error
+ * - "rate-limited": the email step answers "too many attempts"
+ * - "two-factor": an authenticator prompt follows the magic code
+ * - "already-logged-in": every visitor already has a session
+ * - "new-account": addresses signing in for the first time go through
+ *   onboarding (purpose, team size, accounting, name) before the inbox
+ * - "noisy-inbox": like "normal", but the logged-in page contains text the
+ *   login error patterns match ("try again later", "two-factor")
+ */
+export type MockVariant =
+  | "normal"
+  | "invalid-code"
+  | "expired-code"
+  | "rate-limited"
+  | "two-factor"
+  | "already-logged-in"
+  | "new-account"
+  | "noisy-inbox";
+
+export const MOCK_VARIANTS: MockVariant[] = [
+  "normal",
+  "invalid-code",
+  "expired-code",
+  "rate-limited",
+  "two-factor",
+  "already-logged-in",
+  "new-account",
+  "noisy-inbox",
+];
+
+export interface MockExpensifyOptions {
+  variant?: MockVariant;
+  /** Called when a magic code is "emailed", e.g. to deliver it over IMAP */
+  onMagicCode?: (email: string, code: string) => void;
+  /** Base32 secret the "two-factor" variant checks codes against */
+  totpSecret?: string;
+  recoveryCodes?: string[];
+}
+
+interface Account {
+  accountID: number;
+  /** False until a "new-account" signup finishes onboarding */
+  onboarded: boolean;
+  purpose?: string;
+  workspaces: { id: string; name: string }[];
+}
+
+interface Flow {
+  email: string;
+  code: string;
+  /** Magic code accepted, waiting for the authenticator code */
+  awaitingTwoFactor: boolean;
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>${title}</title></head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+const EMAIL_PAGE = (message = "") =>
+  page(
+    "Sign in",
+    `<h1>Get started below</h1>
+<form method="post" action="/login">
+  <input type="email" name="email" placeholder="Phone or email" autocomplete="username">
+  <button type="submit">Continue</button>
+</form>
+${message ? `<p role="alert">${message}</p>` : ""}`
+  );
+
+const CODE_PAGE = (email: string, message = "") =>
+  page(
+    "Enter magic code",
+    `<h1>Please enter the magic code sent to ${email}</h1>
+<form method="post" action="/login/code">
+  <input inputmode="numeric" name="validateCode" placeholder="Magic code" maxlength="6">
+  <button type="submit">Sign in</button>
+</form>
+${message ? `<p role="alert">${message}</p>` : ""}`
+  );
+
+const TWO_FACTOR_PAGE = (recovery: boolean, message = "") =>
+  page(
+    "Two-factor authentication",
+    `<h1>Enter the code from your authenticator app</h1>
+<form method="post" action="/login/2fa">
+  ${
+    recovery
+      ? `<input name="recoveryCode" placeholder="Recovery code">`
+      : `<input name="twoFactorAuthCode" autocomplete="one-time-code" placeholder="Authenticator code" inputmode="numeric">`
+  }
+  <button type="submit">Verify</button>
+</form>
+${recovery ? "" : `<a href="/login/2fa?recovery=1">Use a recovery code</a>`}
+${message ? `<p role="alert">${message}</p>` : ""}`
+  );
+
+// Stores the session and workspaces where the app keeps them (Onyx keys)
+const onyxScript = (email: string, account?: Account) => {
+  const keys: Record<string, unknown> = {
+    session: { authToken: `mock-${email}`, accountID: account?.accountID, email },
+  };
+  for (const workspace of account?.workspaces ?? []) {
+    keys[`policy_${workspace.id}`] = { ...workspace, type: "team", role: "admin" };
+  }
+  return `<script>
+for (const [key, value] of Object.entries(${JSON.stringify(keys)})) {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+</script>`;
+};
+
+// Chat messages and settings that happen to read like login errors
+const NOISE = `<ul>
+  <li>Concierge: The bank connection failed, please try again later.</li>
+  <li><a href="/settings">Set up two-factor authentication and save your recovery codes</a></li>
+</ul>`;
+
+const HOME_PAGE = (email: string, account?: Account, noisy = false) =>
+  page(
+    "Inbox",
+    `<header>Expensify</header>
+<nav><a href="/">Inbox</a> <a href="/settings">Settings</a></nav>
+<main data-testid="workspace">Signed in as ${email}</main>
+${noisy ? NOISE : ""}
+<form method="post" action="/logout"><button type="submit">Log out</button></form>
+${onyxScript(email, account)}`
+  );
+
+const PURPOSES: [string, string][] = [
+  ["manage-team", "Manage my team's expenses"],
+  ["track", "Track and budget expenses"],
+  ["employer", "Get paid back by my employer"],
+  ["chat-split", "Chat and split expenses with friends"],
+  ["other", "Something else"],
+];
+
+const PURPOSE_PAGE = () =>
+  page(
+    "Onboarding",
+    `<header>Expensify</header>
+<h1>What do you want to do today?</h1>
+${PURPOSES.map(
+  ([value, label]) =>
+    `<a role="menuitem" aria-label="${label}" href="/onboarding/purpose?choice=${value}">${label}</a>`
+).join("\n")}`
+  );
+
+// Team size and accounting screens: one radio list and Continue
+const CHOICE_PAGE = (action: string, title: string, options: string[]) =>
+  page(
+    "Onboarding",
+    `<h1>${title}</h1>
+<form method="post" action="${action}">
+${options
+  .map((option) => `<label><input type="radio" name="choice" value="${option}">${option}</label>`)
+  .join("\n")}
+  <button type="submit">Continue</button>
+</form>`
+  );
+
+const PERSONAL_DETAILS_PAGE = () =>
+  page(
+    "Onboarding",
+    `<h1>What's your name?</h1>
+<form method="post" action="/onboarding/personal-details">
+  <input name="firstName" aria-label="First name">
+  <input name="lastName" aria-label="Last name">
+  <button type="submit">Continue</button>
+</form>`
+  );
+
+const WORKSPACES_PAGE = (email: string, account: Account) =>
+  page(
+    "Workspaces",
+    `<h1>Workspaces</h1>
+<ul>${account.workspaces.map((w) => `<li><a href="/workspaces/${w.id}/overview">${w.name}</a></li>`).join("")}</ul>
+<form method="post" action="/workspaces/new"><button type="submit">New workspace</button></form>
+${onyxScript(email, account)}`
+  );
+
+const WORKSPACE_PAGE = (email: string, account: Account, id: string, editing: boolean) => {
+  const workspace = account.workspaces.find((w) => w.id === id)!;
+  return page(
+    "Overview",
+    editing
+      ? `<form method="post" action="/workspaces/${id}/name">
+  <input name="name" aria-label="Name" value="${workspace.name}">
+  <button type="submit">Save</button>
+</form>`
+      : `<h1>Overview</h1>
+<a aria-label="Workspace name" href="/workspaces/${id}/overview?edit=1">${workspace.name}</a>
+${onyxScript(email, account)}`
+  );
+};
+
+/**
+ * A stand-in for new.expensify.com's sign-in flow, served as plain HTML
+ * forms that match the NEWDOT site adapter's selectors and error texts.
+ * Logged-out visitors are sent to /login, like the real app.
+ */
+// Expensify policy IDs are 16 uppercase hex digits
+function mockPolicyID(): string {
+  return randomBytes(8).toString("hex").toUpperCase();
+}
+
+export class MockExpensifyServer {
+  variant: MockVariant;
+  private options: MockExpensifyOptions;
+  private server: Server | null = null;
+  private flows = new Map<string, Flow>();
+  private sessions = new Map<string, string>();
+  private usedRecoveryCodes = new Set<string>();
+  /** Accounts by email, created on first sign-in */
+  readonly accounts = new Map<string, Account>();
+  /** Every magic code issued, newest last */
+  readonly issuedCodes: { email: string; code: string }[] = [];
+
+  constructor(options: MockExpensifyOptions = {}) {
+    this.options = options;
+    this.variant = options.variant ?? "normal";
+  }
+
+  async listen(port: number = 0, host: string = "127.0.0.1"): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.writeHead(500).end(String(error));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+    return `http://${host}:${(this.server.address() as AddressInfo).port}/`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => {
+      if (!this.server) return resolve();
+      this.server.closeAllConnections();
+      this.server.close(() => resolve());
+    });
+    this.server = null;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://mock");
+    const cookies = Object.fromEntries(
+      (req.headers.cookie ?? "")
+        .split(";")
+        .map((pair) => pair.trim().split("="))
+        .filter(([name]) => name)
+    );
+    const form = req.method === "POST" ? await this.readForm(req) : new URLSearchParams();
+    const flow = this.flows.get(cookies.flow);
+    const sessionEmail =
+      this.variant === "already-logged-in"
+        ? "already@logged.in"
+        : this.sessions.get(cookies.session);
+
+    const html = (body: string, status: number = 200, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { "Content-Type": "text/html; charset=utf-8", ...headers });
+      res.end(body);
+    };
+    const redirect = (location: string, headers: Record<string, string> = {}) => {
+      res.writeHead(303, { Location: location, ...headers });
+      res.end();
+    };
+
+    const account = sessionEmail ? this.accounts.get(sessionEmail) : undefined;
+    if (account && !account.onboarded && !url.pathname.startsWith("/onboarding")) {
+      return redirect("/onboarding/purpose");
+    }
+    const workspace = url.pathname.match(/^\/workspaces\/([0-9A-F]{16})\/(overview|name)$/);
+    if (workspace && account?.workspaces.some((w) => w.id === workspace[1])) {
+      if (req.method === "POST" && workspace[2] === "name") {
+        account.workspaces.find((w) => w.id === workspace[1])!.name = form.get("name") ?? "";
+        return redirect(`/workspaces/${workspace[1]}/overview`);
+      }
+      return html(
+        WORKSPACE_PAGE(sessionEmail!, account, workspace[1], url.searchParams.has("edit"))
+      );
+    }
+
+    switch (`${req.method} ${url.pathname}`) {
+      case "GET /":
+      case "GET /settings":
+        return sessionEmail
+          ? html(HOME_PAGE(sessionEmail, account, this.variant === "noisy-inbox"))
+          : redirect("/login");
+
+      case "GET /onboarding/purpose": {
+        if (!account || account.onboarded) return redirect("/");
+        const choice = url.searchParams.get("choice");
+        if (!choice) return html(PURPOSE_PAGE());
+        account.purpose = choice;
+        return redirect(
+          choice === "manage-team" ? "/onboarding/employees" : "/onboarding/personal-details"
+        );
+      }
+
+      case "GET /onboarding/employees":
+        return html(
+          CHOICE_PAGE("/onboarding/employees", "How many employees do you have?", [
+            "1-10 employees",
+            "11-50 employees",
+          ])
+        );
+      case "POST /onboarding/employees":
+        return redirect(form.get("choice") ? "/onboarding/accounting" : "/onboarding/employees");
+
+      case "GET /onboarding/accounting":
+        return html(
+          CHOICE_PAGE("/onboarding/accounting", "Which accounting software do you use?", [
+            "QuickBooks Online",
+            "None",
+          ])
+        );
+      case "POST /onboarding/accounting":
+        return redirect(
+          form.get("choice") ? "/onboarding/personal-details" : "/onboarding/accounting"
+        );
+
+      case "GET /onboarding/personal-details":
+        return html(PERSONAL_DETAILS_PAGE());
+      case "POST /onboarding/personal-details": {
+        if (!account) return redirect("/login");
+        const firstName = form.get("firstName");
+        if (!firstName) return redirect("/onboarding/personal-details");
+        account.onboarded = true;
+        if (account.purpose === "manage-team") {
+          account.workspaces.push({ id: mockPolicyID(), name: `${firstName}'s Workspace` });
+        }
+        return redirect("/");
+      }
+
+      case "GET /settings/workspaces":
+        if (!account) return redirect("/login");
+        return html(WORKSPACES_PAGE(sessionEmail!, account));
+      case "POST /workspaces/new": {
+        if (!account) return redirect("/login");
+        const id = mockPolicyID();
+        account.workspaces.push({ id, name: `Workspace ${account.workspaces.length + 1}` });
+        return redirect(`/workspaces/${id}/overview`);
+      }
+
+      case "GET /login":
+        return sessionEmail ? redirect("/") : html(EMAIL_PAGE());
+
+      case "POST /login": {
+        if (this.variant === "rate-limited") {
+          return html(EMAIL_PAGE("Too many attempts. Please try again later."), 429);
+        }
+        const email = form.get("email") ?? "";
+        const code = String(randomInt(100000, 1000000));
+        const id = randomUUID();
+        this.flows.set(id, { email, code, awaitingTwoFactor: false });
+        this.issuedCodes.push({ email, code });
+        // Like the real app, the code arrives after the page has moved on
+        setTimeout(() => this.options.onMagicCode?.(email, code), 200);
+        return html(CODE_PAGE(email), 200, { "Set-Cookie": `flow=${id}; Path=/; HttpOnly` });
+      }
+
+      case "POST /login/code": {
+        if (!flow) return redirect("/login");
+        const code = form.get("validateCode");
+        if (this.variant === "expired-code") {
+          return html(CODE_PAGE(flow.email, "Your magic code has expired. Please request a new one."));
+        }
+        if (this.variant === "invalid-code" || code !== flow.code) {
+          return html(CODE_PAGE(flow.email, "Incorrect magic code. Please try again."));
+        }
+        if (this.variant === "two-factor") {
+          flow.awaitingTwoFactor = true;
+          return redirect("/login/2fa");
+        }
+        return this.signIn(flow, cookies.flow, redirect);
+      }
+
+      case "GET /login/2fa":
+        if (!flow?.awaitingTwoFactor) return redirect("/login");
+        return html(TWO_FACTOR_PAGE(url.searchParams.has("recovery")));
+
+      case "POST /login/2fa": {
+        if (!flow?.awaitingTwoFactor) return redirect("/login");
+        const recoveryCode = form.get("recoveryCode");
+        const valid = recoveryCode
+          ? this.useRecoveryCode(recoveryCode)
+          : this.options.totpSecret !== undefined &&
+            form.get("twoFactorAuthCode") === totp(this.options.totpSecret);
+        if (!valid) {
+          const what = recoveryCode ? "recovery code" : "two-factor authentication code";
+          return html(TWO_FACTOR_PAGE(!!recoveryCode, `Incorrect ${what}. Please try again.`));
+        }
+        return this.signIn(flow, cookies.flow, redirect);
+      }
+
+      case "POST /logout":
+        this.sessions.delete(cookies.session);
+        return redirect("/login", { "Set-Cookie": "session=; Path=/; Max-Age=0" });
+
+      default:
+        res.writeHead(404).end();
+    }
+  }
+
+  private signIn(
+    flow: Flow,
+    flowId: string,
+    redirect: (location: string, headers: Record<string, string>) => void
+  ): void {
+    const session = randomUUID();
+    this.sessions.set(session, flow.email);
+    this.flows.delete(flowId);
+    if (!this.accounts.has(flow.email)) {
+      this.accounts.set(flow.email, {
+        accountID: randomInt(1000000, 100000000),
+        onboarded: this.variant !== "new-account",
+        workspaces: [],
+      });
+    }
+    redirect("/", { "Set-Cookie": `session=${session}; Path=/; HttpOnly` });
+  }
+
+  private useRecoveryCode(code: string): boolean {
+    if (!this.options.recoveryCodes?.includes(code) || this.usedRecoveryCodes.has(code)) {
+      return false;
+    }
+    this.usedRecoveryCodes.add(code);
+    return true;
+  }
+
+  private async readForm(req: IncomingMessage): Promise<URLSearchParams> {
+    let body = "";
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    return new URLSearchParams(body);
+  }
+}
@@ -0,0 +1,426 @@
+import { AddressInfo, createServer, Server, Socket } from "node:net";
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export interface MockMessage {
+  uid: number;
+  raw: string;
+  flags: Set<string>;
+  /** INTERNALDATE: when the server received it */
+  receivedAt: Date;
+}
+
+export interface MockImapOptions {
+  user: string;
+  password: string;
+  /** Advertise IDLE (push mode). Default: true */
+  idle?: boolean;
+  /** Advertise UIDPLUS (UID EXPUNGE). Default: true */
+  uidplus?: boolean;
+}
+
+interface Session {
+  socket: Socket;
+  authenticated: boolean;
+  selected: boolean;
+  /** Tag of the IDLE command waiting for DONE */
+  idleTag: string | null;
+}
+
+/**
+ * Headers of a raw message, unfolded and with lowercase names
+ */
+function headersOf(raw: string): Record<string, string> {
+  const head = raw.split(/\r?\n\r?\n/)[0].replace(/\r?\n[ \t]+/g, " ");
+  const headers: Record<string, string> = {};
+  for (const line of head.split(/\r?\n/)) {
+    const index = line.indexOf(":");
+    if (index > 0) {
+      headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+    }
+  }
+  return headers;
+}
+
+function imapDate(date: Date): string {
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  const time = date.toISOString().slice(11, 19);
+  return `${day}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()} ${time} +0000`;
+}
+
+/**
+ * Splits a command line into atoms and quoted strings; parentheses are
+ * dropped since only flat lists are needed here
+ */
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|([^\s()]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line))) {
+    tokens.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, "$1") : match[2]);
+  }
+  return tokens;
+}
+
+/**
+ * "1,3:5,7:*" → matching UIDs among those that exist
+ */
+function parseUidSet(set: string, uids: number[]): number[] {
+  const max = Math.max(0, ...uids);
+  return uids.filter((uid) =>
+    set.split(",").some((range) => {
+      const [from, to = from] = range.split(":").map((n) => (n === "*" ? max : Number(n)));
+      return uid >= Math.min(from, to) && uid <= Math.max(from, to);
+    })
+  );
+}
+
+/**
+ * Just enough of an IMAP4rev1 server for EmailMonitor (node-imap): LOGIN,
+ * SELECT INBOX, UID SEARCH, UID FETCH, UID STORE, UID MOVE, EXPUNGE, CREATE
+ * and IDLE, over plain TCP. Messages are seeded or delivered in memory;
+ * clients in IDLE are told about new mail like a real server would.
+ */
+export class MockImapServer {
+  private options: MockImapOptions;
+  private server: Server | null = null;
+  private sessions = new Set<Session>();
+  private nextUid: number = 1;
+  /** INBOX */
+  readonly messages: MockMessage[] = [];
+  /** Other mailboxes, filled by CREATE and UID MOVE */
+  readonly folders = new Map<string, MockMessage[]>();
+
+  constructor(options: MockImapOptions) {
+    this.options = options;
+  }
+
+  async listen(port: number = 0, host: string = "127.0.0.1"): Promise<number> {
+    this.server = createServer((socket) => this.accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    for (const session of this.sessions) {
+      session.socket.destroy();
+    }
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    );
+    this.server = null;
+  }
+
+  /**
+   * Adds a raw RFC 822 message to INBOX and notifies idling clients
+   */
+  deliver(raw: string, receivedAt: Date = new Date()): MockMessage {
+    const message: MockMessage = {
+      uid: this.nextUid++,
+      raw: raw.replace(/\r?\n/g, "\r\n"),
+      flags: new Set(),
+      receivedAt,
+    };
+    this.messages.push(message);
+
+    for (const session of this.sessions) {
+      if (session.selected) {
+        session.socket.write(`* ${this.messages.length} EXISTS\r\n`);
+      }
+    }
+    return message;
+  }
+
+  private accept(socket: Socket): void {
+    const session: Session = {
+      socket,
+      authenticated: false,
+      selected: false,
+      idleTag: null,
+    };
+    this.sessions.add(session);
+    socket.on("close", () => this.sessions.delete(session));
+    socket.on("error", () => this.sessions.delete(session));
+
+    let buffer = "";
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        this.handle(session, line);
+      }
+    });
+
+    socket.write("* OK Mock IMAP ready\r\n");
+  }
+
+  private capabilities(): string {
+    return [
+      "IMAP4rev1 MOVE",
+      this.options.uidplus === false ? "" : " UIDPLUS",
+      this.options.idle === false ? "" : " IDLE",
+    ].join("");
+  }
+
+  private handle(session: Session, line: string): void {
+    const { socket } = session;
+    const write = (text: string) => socket.write(`${text}\r\n`);
+
+    if (session.idleTag) {
+      if (line.trim().toUpperCase() === "DONE") {
+        write(`${session.idleTag} OK IDLE terminated`);
+        session.idleTag = null;
+      }
+      return;
+    }
+
+    const [tag, rawCommand = "", ...args] = tokenize(line);
+    let command = rawCommand.toUpperCase();
+    let uidArgs = args;
+    if (command === "UID") {
+      command = `UID ${(args[0] ?? "").toUpperCase()}`;
+      uidArgs = args.slice(1);
+    }
+
+    const needsAuth = !["CAPABILITY", "LOGIN", "LOGOUT", "NOOP"].includes(command);
+    if (needsAuth && !session.authenticated) {
+      write(`${tag} BAD Not authenticated`);
+      return;
+    }
+    const needsBox = command.startsWith("UID ") || command === "EXPUNGE";
+    if (needsBox && !session.selected) {
+      write(`${tag} BAD No mailbox selected`);
+      return;
+    }
+
+    switch (command) {
+      case "CAPABILITY":
+        write(`* CAPABILITY ${this.capabilities()}`);
+        write(`${tag} OK CAPABILITY completed`);
+        break;
+
+      case "LOGIN":
+        if (args[0] === this.options.user && args[1] === this.options.password) {
+          session.authenticated = true;
+          write(`${tag} OK LOGIN completed`);
+        } else {
+          write(`${tag} NO [AUTHENTICATIONFAILED] Invalid credentials (Failure)`);
+        }
+        break;
+
+      case "LIST":
+        write(`* LIST (\\Noselect) "/" ""`);
+        write(`${tag} OK LIST completed`);
+        break;
+
+      case "SELECT":
+      case "EXAMINE":
+        if (args[0]?.toUpperCase() !== "INBOX") {
+          write(`${tag} NO Mailbox does not exist`);
+          break;
+        }
+        session.selected = true;
+        write(`* FLAGS (\\Seen \\Deleted)`);
+        write(`* OK [PERMANENTFLAGS (\\Seen \\Deleted)] Flags permitted`);
+        write(`* ${this.messages.length} EXISTS`);
+        write(`* 0 RECENT`);
+        write(`* OK [UIDVALIDITY 1] UIDs valid`);
+        write(`* OK [UIDNEXT ${this.nextUid}] Predicted next UID`);
+        write(`${tag} OK [${command === "SELECT" ? "READ-WRITE" : "READ-ONLY"}] ${command} completed`);
+        break;
+
+      case "UID SEARCH":
+        write(`* SEARCH ${this.search(uidArgs).join(" ")}`.trimEnd());
+        write(`${tag} OK SEARCH completed`);
+        break;
+
+      case "UID FETCH":
+        this.fetch(session, uidArgs);
+        write(`${tag} OK FETCH completed`);
+        break;
+
+      case "UID STORE":
+        this.store(uidArgs);
+        write(`${tag} OK STORE completed`);
+        break;
+
+      case "UID MOVE": {
+        const [set, box] = uidArgs;
+        const folder = this.folders.get(box);
+        if (!folder) {
+          write(`${tag} NO [TRYCREATE] Mailbox doesn't exist`);
+          break;
+        }
+        folder.push(...this.expunge(parseUidSet(set, this.messages.map((m) => m.uid))));
+        write(`${tag} OK MOVE completed`);
+        break;
+      }
+
+      case "UID EXPUNGE":
+      case "EXPUNGE": {
+        const uids = this.messages
+          .filter((m) => m.flags.has("\\Deleted"))
+          .map((m) => m.uid);
+        this.expunge(command === "EXPUNGE" ? uids : parseUidSet(uidArgs[0], uids));
+        write(`${tag} OK EXPUNGE completed`);
+        break;
+      }
+
+      case "CREATE":
+        if (args[0]?.toUpperCase() === "INBOX" || this.folders.has(args[0])) {
+          write(`${tag} NO [ALREADYEXISTS] Mailbox exists`);
+          break;
+        }
+        this.folders.set(args[0], []);
+        write(`${tag} OK CREATE completed`);
+        break;
+
+      case "NOOP":
+        write(`${tag} OK NOOP completed`);
+        break;
+
+      case "IDLE":
+        session.idleTag = tag;
+        write("+ idling");
+        break;
+
+      case "LOGOUT":
+        write("* BYE Logging out");
+        write(`${tag} OK LOGOUT completed`);
+        socket.end();
+        break;
+
+      default:
+        write(`${tag} BAD Unsupported command ${command}`);
+    }
+  }
+
+  /**
+   * Removes these INBOX messages, telling selected clients the way a real
+   * server does (highest sequence number first, so the rest stay valid)
+   */
+  private expunge(uids: number[]): MockMessage[] {
+    const removed: MockMessage[] = [];
+    for (let index = this.messages.length - 1; index >= 0; index--) {
+      if (!uids.includes(this.messages[index].uid)) continue;
+      removed.unshift(...this.messages.splice(index, 1));
+      for (const session of this.sessions) {
+        if (session.selected) session.socket.write(`* ${index + 1} EXPUNGE\r\n`);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Supports the criteria EmailMonitor uses: ALL, SEEN, UNSEEN, DELETED,
+   * FROM, TO, SUBJECT, SINCE and BEFORE
+   */
+  private search(criteria: string[]): number[] {
+    let matches = [...this.messages];
+    for (let i = 0; i < criteria.length; i++) {
+      const key = criteria[i].toUpperCase();
+      const contains = (header: string) => {
+        const needle = criteria[++i].toLowerCase();
+        matches = matches.filter((m) =>
+          (headersOf(m.raw)[header] ?? "").toLowerCase().includes(needle)
+        );
+      };
+
+      switch (key) {
+        case "ALL":
+          break;
+        case "SEEN":
+          matches = matches.filter((m) => m.flags.has("\\Seen"));
+          break;
+        case "UNSEEN":
+          matches = matches.filter((m) => !m.flags.has("\\Seen"));
+          break;
+        case "DELETED":
+          matches = matches.filter((m) => m.flags.has("\\Deleted"));
+          break;
+        case "FROM":
+          contains("from");
+          break;
+        case "TO":
+          contains("to");
+          break;
+        case "SUBJECT":
+          contains("subject");
+          break;
+        case "SINCE":
+        case "BEFORE": {
+          // Date only (d-Mon-yyyy), as in RFC 3501
+          const [day, month, year] = criteria[++i].split("-");
+          const date = new Date(Date.UTC(Number(year), MONTHS.indexOf(month), Number(day)));
+          matches = matches.filter((m) =>
+            key === "SINCE" ? m.receivedAt >= date : m.receivedAt < date
+          );
+          break;
+        }
+      }
+    }
+    return matches.map((m) => m.uid);
+  }
+
+  private fetch(session: Session, args: string[]): void {
+    const [set, ...items] = args;
+    const wantsBody = items.some((item) => item.toUpperCase().startsWith("BODY"));
+    const peek = items.some((item) => item.toUpperCase().startsWith("BODY.PEEK"));
+    const uids = parseUidSet(set, this.messages.map((m) => m.uid));
+
+    for (const uid of uids) {
+      const index = this.messages.findIndex((m) => m.uid === uid);
+      const message = this.messages[index];
+      if (wantsBody && !peek) message.flags.add("\\Seen");
+
+      const flags = [...message.flags].join(" ");
+      let response = `* ${index + 1} FETCH (UID ${uid} FLAGS (${flags}) INTERNALDATE "${imapDate(message.receivedAt)}"`;
+      if (wantsBody) {
+        response += ` BODY[] {${Buffer.byteLength(message.raw)}}\r\n${message.raw}`;
+      }
+      session.socket.write(`${response})\r\n`);
+    }
+  }
+
+  private store(args: string[]): void {
+    const [set, mode, ...flags] = args;
+    const uids = parseUidSet(set, this.messages.map((m) => m.uid));
+    for (const message of this.messages.filter((m) => uids.includes(m.uid))) {
+      const op = mode.toUpperCase();
+      if (op.startsWith("+")) {
+        flags.forEach((flag) => message.flags.add(flag));
+      } else if (op.startsWith("-")) {
+        flags.forEach((flag) => message.flags.delete(flag));
+      } else {
+        message.flags = new Set(flags);
+      }
+    }
+  }
+}
+
+/**
+ * A raw magic-code email as Expensify sends it
+ */
+export function magicCodeEmail(
+  to: string,
+  code: string,
+  options: { from?: string; date?: Date } = {}
+): string {
+  const date = options.date ?? new Date();
+  return [
+    `From: Expensify <${options.from ?? "concierge@expensify.com"}>`,
+    `To: ${to}`,
+    `Subject: Expensify magic code: ${code}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${date.getTime()}.${code}@expensify.mock>`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    `Here is your magic code: ${code}`,
+    "",
+  ].join("\r\n");
+}
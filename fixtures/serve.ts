@@ -0,0 +1,66 @@
+import { getFlag, stripEmailTag } from "../auto-login";
+import { logger } from "../logger";
+import { MOCK_VARIANTS, MockExpensifyServer, MockVariant } from "./mock-expensify";
+import { magicCodeEmail, MockImapServer } from "./mock-imap";
+
+const DEFAULT_EMAIL = "tester@example.com";
+const DEFAULT_PASSWORD = "mockapppassword";
+
+/**
+ * Starts the fake login page and IMAP server together: every magic code the
+ * page "sends" is delivered to the IMAP inbox. Prints the .env settings that
+ * point the CLI at them, so a full login runs with no network.
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const variant = (getFlag(args, "variant") || "normal") as MockVariant;
+  if (!MOCK_VARIANTS.includes(variant)) {
+    logger.error(`Unknown variant "${variant}" (expected ${MOCK_VARIANTS.join(", ")})`);
+    process.exit(2);
+  }
+  const email = getFlag(args, "email") || DEFAULT_EMAIL;
+  const totpSecret = getFlag(args, "totp-secret");
+  const recoveryCodes = getFlag(args, "recovery-codes")?.split(",");
+
+  const imap = new MockImapServer({
+    user: stripEmailTag(email),
+    password: DEFAULT_PASSWORD,
+    idle: !args.includes("--no-idle"),
+  });
+  const site = new MockExpensifyServer({
+    variant,
+    totpSecret,
+    recoveryCodes,
+    onMagicCode: (to, code) => {
+      imap.deliver(magicCodeEmail(to, code));
+      logger.info(`📨 Delivered magic code for ${to}`);
+    },
+  });
+
+  const imapPort = await imap.listen(Number(getFlag(args, "imap-port") || 0));
+  const loginUrl = await site.listen(Number(getFlag(args, "port") || 0));
+
+  console.log(`🧪 Mock Expensify (${variant}) at ${loginUrl}`);
+  console.log(`🧪 Mock IMAP on 127.0.0.1:${imapPort}\n`);
+  console.log("Use these settings (e.g. in .env):\n");
+  console.log(`LOGIN_URL=${loginUrl}`);
+  console.log(`EMAIL=${email}`);
+  console.log(`APP_PASSWORD=${DEFAULT_PASSWORD}`);
+  console.log("IMAP_HOST=127.0.0.1");
+  console.log(`IMAP_PORT=${imapPort}`);
+  console.log("IMAP_TLS=false");
+  console.log("SITE_ADAPTER=newdot");
+  if (totpSecret) console.log(`TOTP_SECRET=${totpSecret}`);
+  if (recoveryCodes) console.log(`RECOVERY_CODES=${recoveryCodes.join(",")}`);
+  console.log("\nPress Ctrl+C to stop");
+
+  process.on("SIGINT", async () => {
+    await Promise.all([site.close(), imap.close()]);
+    process.exit(0);
+  });
+}
+
+// @ts-ignore
+if (import.meta.main) {
+  main();
+}
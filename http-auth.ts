@@ -0,0 +1,15 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+
+/**
+ * Checks "Authorization: Bearer <token>" in constant time. Only the header
+ * is accepted: a ?token= would end up in proxy and access logs. Hashing
+ * first gives timingSafeEqual equal-length inputs.
+ */
+export function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(
+    digest(req.headers.authorization ?? ""),
+    digest(`Bearer ${token}`)
+  );
+}
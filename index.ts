@@ -0,0 +1,78 @@
+/**
+ * Library entry point, for embedding logins in test harnesses and scripts:
+ *
+ *   const autoLogin = new AutoLogin({ ...config, context });
+ *   autoLogin.on("codeReceived", ({ code }) => ...);
+ *   const { status, finalUrl } = await autoLogin.login();
+ */
+export {
+  findAlias,
+  generateAliases,
+  readAliases,
+  retireAliases,
+  type Alias,
+  type GenerateOptions,
+} from "./aliases";
+export {
+  AutoLogin,
+  describeError,
+  stripEmailTag,
+  type AutoLoginEvents,
+  type Config,
+  type LoginResult,
+  type SignupResult,
+} from "./auto-login";
+export {
+  isLoginError,
+  LoginError,
+  type LoginErrorCode,
+  type LoginState,
+} from "./login-errors";
+export type { CodeSource } from "./code-source";
+export {
+  DEFAULT_CODE_RULES,
+  loadCodeRules,
+  matchCodeRules,
+  type CodeMatch,
+  type CodeRule,
+} from "./code-rules";
+export {
+  createCodeSource,
+  GMAIL_IMAP,
+  mailSourceFromEnv,
+  type MailSourceConfig,
+} from "./mail-sources";
+export {
+  ENVIRONMENTS,
+  getEnvironment,
+  type Environment,
+} from "./environments";
+export {
+  BROWSER_ENGINES,
+  browserOptionsFromEnv,
+  type BrowserEngine,
+  type BrowserOptions,
+} from "./browser-options";
+export { LoginDaemon, type DaemonConfig } from "./daemon";
+export {
+  completeOnboarding,
+  ONBOARDING_PURPOSES,
+  type OnboardingDetails,
+  type OnboardingPurpose,
+} from "./onboarding";
+export { loadProfile, type Profile } from "./profiles";
+export {
+  DEEP_LINKS,
+  loadRecipe,
+  RecipeError,
+  runRecipe,
+  type Recipe,
+  type RecipeStep,
+} from "./recipes";
+export {
+  loadSiteAdapter,
+  NEWDOT,
+  OLDDOT,
+  type SiteAdapter,
+} from "./site-adapters";
+export { SESSION_FORMATS, type SessionFormat } from "./session-export";
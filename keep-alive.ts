@@ -0,0 +1,84 @@
+import type { AutoLogin } from "./auto-login";
+import { logger } from "./logger";
+
+interface KeepAliveOptions {
+  /** How often to check the session, in ms */
+  interval: number;
+  /** Upper bound for the delay after repeated failed re-logins, in ms */
+  maxBackoff?: number;
+}
+
+/**
+ * Periodically checks whether the page bounced back to the login screen and
+ * re-runs the email and code flow when it did. After a failed re-login the
+ * next attempt is delayed exponentially, up to maxBackoff.
+ */
+export class SessionKeeper {
+  private autoLogin: AutoLogin;
+  private options: KeepAliveOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private failures: number = 0;
+  private reauthCount: number = 0;
+  private running: boolean = false;
+
+  constructor(autoLogin: AutoLogin, options: KeepAliveOptions) {
+    this.autoLogin = autoLogin;
+    this.options = options;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    logger.info(
+      `🫀 Keep-alive: checking session every ${this.options.interval / 1000}s`
+    );
+    this.schedule(this.options.interval);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => this.check(), delay);
+  }
+
+  private async check(): Promise<void> {
+    try {
+      if (await this.autoLogin.isSessionActive()) {
+        this.failures = 0;
+        this.schedule(this.options.interval);
+        return;
+      }
+
+      logger.info(
+        `\n🔁 [${new Date().toISOString()}] Session expired, logging in again...`
+      );
+      await this.autoLogin.reauthenticate();
+      this.reauthCount++;
+      this.failures = 0;
+      logger.info(
+        `🔁 [${new Date().toISOString()}] Re-login #${this.reauthCount} succeeded`
+      );
+      this.schedule(this.options.interval);
+    } catch (error) {
+      this.failures++;
+      const delay = Math.min(
+        this.options.interval * 2 ** this.failures,
+        this.options.maxBackoff ?? 30 * 60 * 1000
+      );
+      logger.error(
+        `⚠️  [${new Date().toISOString()}] Keep-alive failed ${
+          this.failures
+        } time(s) in a row; retrying in ${Math.round(delay / 1000)}s`,
+        { error }
+      );
+      this.schedule(delay);
+    }
+  }
+}
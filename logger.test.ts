@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { Logger, LoggerOptions } from "./logger";
+
+describe("Logger redaction", () => {
+  let lines: string[];
+  let restore: () => void;
+
+  beforeEach(() => {
+    lines = [];
+    const stdout = spyOn(process.stdout, "write").mockImplementation((chunk) => {
+      lines.push(String(chunk).trimEnd());
+      return true;
+    });
+    const stderr = spyOn(process.stderr, "write").mockImplementation((chunk) => {
+      lines.push(String(chunk).trimEnd());
+      return true;
+    });
+    restore = () => {
+      stdout.mockRestore();
+      stderr.mockRestore();
+    };
+  });
+
+  afterEach(() => restore());
+
+  function createLogger(options: Partial<LoggerOptions> = {}): Logger {
+    const logger = new Logger();
+    logger.configure(options);
+    return logger;
+  }
+
+  test("masks a registered secret in messages and field values", () => {
+    const logger = createLogger();
+    logger.addSecret("hunter22");
+
+    logger.info("Signing in with hunter22", { note: "password=hunter22" });
+
+    expect(lines).toEqual(["Signing in with *** note=password=***"]);
+  });
+
+  test("masks every occurrence, at every level", () => {
+    const logger = createLogger();
+    logger.addSecret("s3cr3t");
+
+    logger.warn("s3cr3t and s3cr3t again");
+
+    expect(lines).toEqual(["*** and *** again"]);
+  });
+
+  test("ignores secrets shorter than 4 characters", () => {
+    const logger = createLogger();
+    expect(logger.addSecret("abc")).toBe("abc");
+    logger.addSecret("abcd");
+
+    logger.info("abc is left, abcd is masked");
+
+    expect(lines).toEqual(["abc is left, *** is masked"]);
+  });
+
+  test("masks secret field names whatever their value", () => {
+    const logger = createLogger();
+
+    logger.info("📧 Code found", { code: "147826", AuthToken: "tok", count: 3 });
+
+    expect(lines).toEqual(["📧 Code found code=*** AuthToken=*** count=3"]);
+  });
+
+  test("masks nested secret fields and secrets in json mode", () => {
+    const logger = createLogger({ format: "json" });
+    logger.addSecret("hunter22");
+
+    logger.info("Session", {
+      session: { authToken: "abc123", email: "me@example.com" },
+      attempts: [{ recoveryCode: "r-1" }, "used hunter22"],
+    });
+
+    const entry = JSON.parse(lines[0]);
+    expect(entry.msg).toBe("Session");
+    expect(entry.session).toEqual({ authToken: "***", email: "me@example.com" });
+    expect(entry.attempts).toEqual([{ recoveryCode: "***" }, "used ***"]);
+  });
+
+  test("redact() masks text written outside the log", () => {
+    const logger = createLogger();
+    logger.addSecret("hunter22");
+
+    expect(logger.redact("<input value=hunter22>")).toBe("<input value=***>");
+  });
+
+  test("LOG_REDACT=false leaves everything readable", () => {
+    const logger = createLogger({ redact: false });
+    logger.addSecret("hunter22");
+
+    logger.info("hunter22", { code: "147826" });
+
+    expect(lines).toEqual(["hunter22 code=147826"]);
+    expect(logger.redact("hunter22")).toBe("hunter22");
+  });
+});
@@ -0,0 +1,180 @@
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40, silent: 50 } as const;
+
+export type LogLevel = keyof typeof LEVELS;
+export type LogFormat = "text" | "json";
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  level: LogLevel;
+  /** "json" writes one JSON object per line, for CI */
+  format: LogFormat;
+  /** Mask magic codes, passwords and tokens. Default: true */
+  redact: boolean;
+  /**
+   * Where text debug/info lines go (warnings and errors always go to
+   * stderr). JSON lines all go here. Commands whose stdout is their result
+   * use "stderr".
+   */
+  stream: "stdout" | "stderr";
+}
+
+const MASK = "***";
+
+// Field names whose values are always masked
+const SECRET_FIELDS = /^(code|password|token|authToken|secret|recoveryCode)$/i;
+
+function describe(value: unknown): unknown {
+  if (value instanceof Error) {
+    const code = (value as { code?: unknown }).code;
+    return code ? `[${code}] ${value.message}` : value.message;
+  }
+  return value;
+}
+
+/**
+ * Leveled logger shared by every module. Text mode keeps the familiar emoji
+ * lines; fields are appended as key=value.
+ */
+export class Logger {
+  private options: LoggerOptions = {
+    level: "info",
+    format: "text",
+    redact: true,
+    stream: "stdout",
+  };
+  private secrets = new Set<string>();
+
+  configure(options: Partial<LoggerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  get level(): LogLevel {
+    return this.options.level;
+  }
+
+  /**
+   * Masks this value wherever it shows up in later messages. Returns it, so
+   * it can wrap a value as it is read.
+   */
+  addSecret<T extends string | undefined>(value: T): T {
+    // Very short values would mask unrelated text
+    if (value && value.length >= 4) {
+      this.secrets.add(value);
+    }
+    return value;
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[this.options.level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  /**
+   * Masks registered secrets in text written somewhere other than the log
+   * (e.g. failure artifacts). No-op when redaction is off.
+   */
+  redact(text: string): string {
+    if (!this.options.redact) return text;
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join(MASK);
+    }
+    return result;
+  }
+
+  private redactFields(fields: LogFields): LogFields {
+    const result: LogFields = {};
+    for (const [key, raw] of Object.entries(fields)) {
+      const value = this.redactValue(key, describe(raw));
+      if (value !== undefined) result[key] = value;
+    }
+    return result;
+  }
+
+  // Recurses into plain objects and arrays, so { session: { authToken } }
+  // is masked like a top-level authToken
+  private redactValue(key: string, value: unknown): unknown {
+    if (value === undefined) return value;
+    if (this.options.redact && SECRET_FIELDS.test(key)) return MASK;
+    if (typeof value === "string") return this.redact(value);
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue("", describe(item)));
+    }
+    if (value && Object.getPrototypeOf(value) === Object.prototype) {
+      return this.redactFields(value as LogFields);
+    }
+    return value;
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) return;
+
+    const text = this.redact(message);
+    const safeFields = this.redactFields(fields);
+    let line: string;
+
+    if (this.options.format === "json") {
+      line = JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        msg: text.trim(),
+        ...safeFields,
+      });
+    } else {
+      const suffix = Object.entries(safeFields)
+        .map(([key, value]) => ` ${key}=${typeof value === "string" ? value : JSON.stringify(value)}`)
+        .join("");
+      line = `${text}${suffix}`;
+    }
+
+    const toStderr =
+      this.options.stream === "stderr" ||
+      (this.options.format === "text" && (level === "warn" || level === "error"));
+    (toStderr ? process.stderr : process.stdout).write(`${line}\n`);
+  }
+}
+
+export const logger = new Logger();
+
+/**
+ * LOG_LEVEL (debug, info, warn, error, silent), LOG_FORMAT (text, json) and
+ * LOG_REDACT=false
+ */
+export function loggerOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Partial<LoggerOptions> {
+  const options: Partial<LoggerOptions> = {};
+  if (env.LOG_LEVEL) {
+    if (!(env.LOG_LEVEL in LEVELS)) {
+      throw new Error(
+        `Unknown LOG_LEVEL "${env.LOG_LEVEL}" (expected ${Object.keys(LEVELS).join(", ")})`
+      );
+    }
+    options.level = env.LOG_LEVEL as LogLevel;
+  }
+  if (env.LOG_FORMAT) {
+    if (env.LOG_FORMAT !== "text" && env.LOG_FORMAT !== "json") {
+      throw new Error(`Unknown LOG_FORMAT "${env.LOG_FORMAT}" (expected text or json)`);
+    }
+    options.format = env.LOG_FORMAT;
+  }
+  if (env.LOG_REDACT === "false") {
+    options.redact = false;
+  }
+  return options;
+}
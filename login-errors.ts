@@ -0,0 +1,53 @@
+/**
+ * Stages of AutoLogin's state machine. "verified" and "already-logged-in"
+ * are the two successful end states.
+ */
+export type LoginState =
+  | "navigating"
+  | "email-entered"
+  | "awaiting-code"
+  | "code-entered"
+  | "two-factor"
+  | "verified"
+  | "already-logged-in";
+
+export type LoginErrorCode =
+  /** Login page didn't load */
+  | "NAVIGATION_FAILED"
+  /** Page loaded but no email field, and it isn't a logged-in page either */
+  | "EMAIL_INPUT_NOT_FOUND"
+  /** No magic code email arrived in time */
+  | "CODE_TIMEOUT"
+  /** Could not read mail (connection, auth, ...) */
+  | "MAIL_ERROR"
+  | "CODE_INPUT_NOT_FOUND"
+  /** Page says the code we entered is wrong */
+  | "INVALID_CODE"
+  /** Page says the code we entered has expired */
+  | "EXPIRED_CODE"
+  /** Page says there were too many attempts */
+  | "RATE_LIMITED"
+  /** Page asks for an authenticator code and none is configured */
+  | "TWO_FACTOR_REQUIRED"
+  /** Code was accepted but no logged-in page showed up */
+  | "LOGIN_NOT_CONFIRMED";
+
+/**
+ * A classified login failure. `state` is where the state machine was when
+ * it happened, so callers and CI can tell exactly why a login failed.
+ */
+export class LoginError extends Error {
+  readonly code: LoginErrorCode;
+  state?: LoginState;
+
+  constructor(code: LoginErrorCode, message: string, state?: LoginState) {
+    super(message);
+    this.name = "LoginError";
+    this.code = code;
+    this.state = state;
+  }
+}
+
+export function isLoginError(error: unknown): error is LoginError {
+  return error instanceof LoginError;
+}
@@ -0,0 +1,134 @@
+import type { CodeRule } from "./code-rules";
+import { CLEANUP_ACTIONS, CleanupAction, CleanupPolicy, CodeSource } from "./code-source";
+import { EmailMonitor, WaitMode } from "./email-monitor";
+import { MaildirSource, MboxSource } from "./maildir-source";
+import { MailpitSource } from "./mailpit-source";
+import { WebhookSource } from "./webhook-source";
+
+export type MailSourceConfig = (
+  | { type: "imap"; host: string; port: number; tls: boolean; mode?: WaitMode }
+  | { type: "maildir"; path: string }
+  | { type: "mbox"; path: string }
+  | { type: "webhook"; port: number; host?: string; token?: string }
+  | { type: "mailpit" | "mailhog"; url: string }
+) & {
+  /** How codes are found in an email; see code-rules.ts */
+  rules?: CodeRule[];
+  /** What to do with used emails. Default: mark them read */
+  cleanup?: CleanupPolicy;
+};
+
+export const GMAIL_IMAP: MailSourceConfig = {
+  type: "imap",
+  host: "imap.gmail.com",
+  port: 993,
+  tls: true,
+};
+
+/**
+ * Builds the configured source. IMAP logs in with the given credentials;
+ * the other sources don't need them.
+ */
+export function createCodeSource(
+  config: MailSourceConfig,
+  credentials: { user: string; password: string }
+): CodeSource {
+  switch (config.type) {
+    case "imap":
+      return new EmailMonitor({
+        user: credentials.user,
+        password: credentials.password,
+        host: config.host,
+        port: config.port,
+        tls: config.tls,
+        mode: config.mode,
+        rules: config.rules,
+        cleanup: config.cleanup,
+      });
+    case "maildir":
+      return new MaildirSource({
+        path: config.path,
+        rules: config.rules,
+        cleanup: config.cleanup,
+      });
+    case "mbox":
+      return new MboxSource({ path: config.path, rules: config.rules });
+    case "webhook":
+      return new WebhookSource(config);
+    case "mailpit":
+    case "mailhog":
+      return new MailpitSource({
+        url: config.url,
+        flavor: config.type,
+        rules: config.rules,
+        cleanup: config.cleanup,
+      });
+  }
+}
+
+/**
+ * EMAIL_CLEANUP (mark-read, move, delete) and EMAIL_CLEANUP_FOLDER
+ */
+export function cleanupFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): CleanupPolicy | undefined {
+  if (!env.EMAIL_CLEANUP) return undefined;
+  return parseCleanupPolicy(env.EMAIL_CLEANUP, env.EMAIL_CLEANUP_FOLDER);
+}
+
+export function parseCleanupPolicy(action: string, folder?: string): CleanupPolicy {
+  if (!CLEANUP_ACTIONS.includes(action as CleanupAction)) {
+    throw new Error(
+      `Unknown cleanup action "${action}" (expected ${CLEANUP_ACTIONS.join(", ")})`
+    );
+  }
+  if (action === "move" && !folder) {
+    throw new Error("Moving emails needs a folder (EMAIL_CLEANUP_FOLDER, or --folder for purge)");
+  }
+  return { action: action as CleanupAction, folder };
+}
+
+/**
+ * Reads MAIL_SOURCE and its settings; defaults to Gmail IMAP
+ */
+export function mailSourceFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): MailSourceConfig {
+  const type = env.MAIL_SOURCE || "imap";
+  const cleanup = cleanupFromEnv(env);
+
+  switch (type) {
+    case "imap":
+      return {
+        type,
+        host: env.IMAP_HOST || "imap.gmail.com",
+        port: Number(env.IMAP_PORT || 993),
+        tls: env.IMAP_TLS !== "false",
+        mode: env.IMAP_MODE === "poll" ? "poll" : "push",
+        cleanup,
+      };
+    case "maildir":
+    case "mbox": {
+      const path = type === "maildir" ? env.MAILDIR_PATH : env.MBOX_PATH;
+      if (!path) {
+        throw new Error(`MAIL_SOURCE=${type} requires ${type.toUpperCase()}_PATH`);
+      }
+      return { type, path, cleanup };
+    }
+    case "webhook":
+      return {
+        type,
+        port: Number(env.WEBHOOK_PORT || 8787),
+        host: env.WEBHOOK_HOST,
+        token: env.WEBHOOK_TOKEN,
+        cleanup,
+      };
+    case "mailpit":
+    case "mailhog":
+      return { type, url: env.MAILPIT_URL || "http://localhost:8025", cleanup };
+    default:
+      throw new Error(
+        `Unknown MAIL_SOURCE "${type}" (expected imap, maildir, mbox, webhook, mailpit or mailhog)`
+      );
+  }
+}
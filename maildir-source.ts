@@ -0,0 +1,244 @@
+import { mkdir, readFile, readdir, rename, stat, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { simpleParser } from "mailparser";
+import {
+  CleanupPolicy,
+  CodeSource,
+  codeFromParsedMail,
+  pollForCode,
+} from "./code-source";
+import type { CodeRule } from "./code-rules";
+import { logger } from "./logger";
+
+interface LocalMailConfig {
+  path: string;
+  pollInterval?: number;
+  /** Code extraction rules. Default: DEFAULT_CODE_RULES */
+  rules?: CodeRule[];
+  /** What to do with used messages. Default: mark read */
+  cleanup?: CleanupPolicy;
+}
+
+interface Candidate {
+  code: string;
+  date: Date;
+  markUsed: () => Promise<void>;
+}
+
+function newest(candidates: Candidate[]): Candidate | null {
+  candidates.sort((a, b) => b.date.getTime() - a.date.getTime());
+  return candidates[0] || null;
+}
+
+/**
+ * Null when the file is gone, e.g. moved or deleted by another login
+ * sharing the Maildir between readdir and the read
+ */
+async function unlessGone<T>(read: Promise<T>): Promise<T | null> {
+  try {
+    return await read;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Reads codes from a local Maildir (e.g. one filled by fetchmail, mbsync or
+ * a dev MTA). Used messages are flagged Seen, as an IMAP client would, and
+ * optionally moved to a Maildir++ folder or deleted.
+ */
+export class MaildirSource implements CodeSource {
+  private config: LocalMailConfig;
+
+  constructor(config: LocalMailConfig) {
+    this.config = config;
+  }
+
+  async connect(): Promise<void> {
+    try {
+      await stat(join(this.config.path, "new"));
+    } catch {
+      throw new Error(`Not a Maildir (no new/ directory): ${this.config.path}`);
+    }
+    logger.info(`✅ Reading mail from Maildir ${this.config.path}`);
+  }
+
+  async waitForCode(
+    fromEmail: string = "noreply@expensify.com",
+    maxWaitTime: number = 60000,
+    sinceTime?: Date,
+    recipient?: string
+  ): Promise<string> {
+    logger.info("⏳ Waiting for Expensify magic code email...");
+    return pollForCode(
+      () => this.findCode(fromEmail, sinceTime, recipient),
+      maxWaitTime,
+      this.config.pollInterval
+    );
+  }
+
+  private async findCode(
+    fromEmail: string,
+    sinceTime?: Date,
+    recipient?: string
+  ): Promise<string | null> {
+    const candidates: Candidate[] = [];
+
+    for (const subdir of ["new", "cur"]) {
+      const dir = join(this.config.path, subdir);
+      let files: string[];
+      try {
+        files = await readdir(dir);
+      } catch {
+        continue;
+      }
+
+      for (const file of files) {
+        // Maildir info suffix ":2,<flags>"; S means seen
+        const info = file.split(":2,")[1];
+        if (info?.includes("S") || file.startsWith(".")) continue;
+
+        const path = join(dir, file);
+        const raw = await unlessGone(readFile(path));
+        if (!raw) continue;
+        const parsed = await simpleParser(raw);
+        const code = codeFromParsedMail(
+          parsed,
+          fromEmail,
+          sinceTime,
+          recipient,
+          this.config.rules
+        );
+        if (!code) continue;
+        const date = parsed.date || (await unlessGone(stat(path)))?.mtime;
+        if (!date) continue;
+
+        candidates.push({
+          code,
+          date,
+          markUsed: () => this.cleanUp(path, file, info),
+        });
+      }
+    }
+
+    const best = newest(candidates);
+    if (!best) return null;
+    await best.markUsed().catch((error) => {
+      logger.warn("Warning: Could not clean up used email", { error });
+    });
+    return best.code;
+  }
+
+  /**
+   * Flags the message Seen (moving it to cur/), inside a ".<folder>"
+   * Maildir++ subfolder for "move"; "delete" removes the file
+   */
+  private async cleanUp(
+    path: string,
+    file: string,
+    info: string | undefined
+  ): Promise<void> {
+    const policy = this.config.cleanup ?? { action: "mark-read" };
+    if (policy.action === "delete") {
+      await unlink(path);
+      return;
+    }
+
+    let maildir = this.config.path;
+    if (policy.action === "move") {
+      maildir = join(maildir, `.${policy.folder}`);
+      for (const subdir of ["cur", "new", "tmp"]) {
+        await mkdir(join(maildir, subdir), { recursive: true });
+      }
+    }
+    await rename(
+      path,
+      join(maildir, "cur", info === undefined ? `${file}:2,S` : `${file}S`)
+    );
+  }
+
+  disconnect(): void {}
+}
+
+/**
+ * Reads codes from a local mbox file. The file is never rewritten, so used
+ * messages are only remembered for the lifetime of this source.
+ */
+export class MboxSource implements CodeSource {
+  private config: LocalMailConfig;
+  private used = new Set<string>();
+
+  constructor(config: LocalMailConfig) {
+    this.config = config;
+  }
+
+  async connect(): Promise<void> {
+    try {
+      await stat(this.config.path);
+    } catch {
+      throw new Error(`mbox file not found: ${this.config.path}`);
+    }
+    logger.info(`✅ Reading mail from mbox ${this.config.path}`);
+    if (this.config.cleanup && this.config.cleanup.action !== "mark-read") {
+      logger.warn("⚠️  mbox files are never rewritten; used emails are not moved or deleted");
+    }
+  }
+
+  async waitForCode(
+    fromEmail: string = "noreply@expensify.com",
+    maxWaitTime: number = 60000,
+    sinceTime?: Date,
+    recipient?: string
+  ): Promise<string> {
+    logger.info("⏳ Waiting for Expensify magic code email...");
+    return pollForCode(
+      () => this.findCode(fromEmail, sinceTime, recipient),
+      maxWaitTime,
+      this.config.pollInterval
+    );
+  }
+
+  private async findCode(
+    fromEmail: string,
+    sinceTime?: Date,
+    recipient?: string
+  ): Promise<string | null> {
+    const text = await readFile(this.config.path, "utf8");
+    const messages = text
+      .split(/^From .*\r?\n/m)
+      .filter((message) => message.trim())
+      .map((message) => message.replace(/^>(>*From )/gm, "$1"));
+
+    const candidates: Candidate[] = [];
+    for (const [index, raw] of messages.entries()) {
+      const parsed = await simpleParser(raw);
+      const key = parsed.messageId || `#${index}`;
+      if (this.used.has(key)) continue;
+
+      const code = codeFromParsedMail(
+        parsed,
+        fromEmail,
+        sinceTime,
+        recipient,
+        this.config.rules
+      );
+      if (code && parsed.date) {
+        candidates.push({
+          code,
+          date: parsed.date,
+          markUsed: async () => {
+            this.used.add(key);
+          },
+        });
+      }
+    }
+
+    const best = newest(candidates);
+    if (!best) return null;
+    await best.markUsed();
+    return best.code;
+  }
+
+  disconnect(): void {}
+}
@@ -0,0 +1,153 @@
+import { simpleParser } from "mailparser";
+import {
+  CleanupPolicy,
+  CodeSource,
+  codeFromParsedMail,
+  pollForCode,
+} from "./code-source";
+import type { CodeRule } from "./code-rules";
+import { logger } from "./logger";
+
+interface CatcherConfig {
+  /** Base URL of the web UI, e.g. http://localhost:8025 */
+  url: string;
+  flavor: "mailpit" | "mailhog";
+  pollInterval?: number;
+  /** Code extraction rules. Default: DEFAULT_CODE_RULES */
+  rules?: CodeRule[];
+  /** "delete" removes used messages; "move" isn't supported and marks read */
+  cleanup?: CleanupPolicy;
+}
+
+interface CaughtMessage {
+  id: string;
+  from: string;
+  read: boolean;
+  raw: () => Promise<string>;
+}
+
+/** GET /api/v2/messages on MailHog */
+interface MailhogMessages {
+  items: { ID: string; Raw: { From?: string; Data: string } }[];
+}
+
+/** GET /api/v1/messages on Mailpit */
+interface MailpitMessages {
+  messages: { ID: string; From?: { Address: string }; Read: boolean }[];
+}
+
+/**
+ * Reads codes from a local SMTP catcher's HTTP API, for dev environments
+ * that send mail to Mailpit or MailHog instead of a real inbox
+ */
+export class MailpitSource implements CodeSource {
+  private config: CatcherConfig;
+  private baseUrl: string;
+  private used = new Set<string>();
+
+  constructor(config: CatcherConfig) {
+    this.config = config;
+    this.baseUrl = config.url.replace(/\/+$/, "");
+  }
+
+  async connect(): Promise<void> {
+    await this.listMessages();
+    logger.info(`✅ Connected to ${this.config.flavor} at ${this.baseUrl}`);
+    if (this.config.cleanup?.action === "move") {
+      logger.warn(`⚠️  ${this.config.flavor} has no folders; used emails are only marked read`);
+    }
+  }
+
+  async waitForCode(
+    fromEmail: string = "noreply@expensify.com",
+    maxWaitTime: number = 60000,
+    sinceTime?: Date,
+    recipient?: string
+  ): Promise<string> {
+    logger.info("⏳ Waiting for Expensify magic code email...");
+    return pollForCode(
+      () => this.findCode(fromEmail, sinceTime, recipient),
+      maxWaitTime,
+      this.config.pollInterval
+    );
+  }
+
+  disconnect(): void {}
+
+  private async findCode(
+    fromEmail: string,
+    sinceTime?: Date,
+    recipient?: string
+  ): Promise<string | null> {
+    // Both APIs list newest first
+    for (const message of await this.listMessages()) {
+      if (message.read || this.used.has(message.id)) continue;
+      if (message.from.toLowerCase() !== fromEmail.toLowerCase()) continue;
+
+      const parsed = await simpleParser(await message.raw());
+      const code = codeFromParsedMail(
+        parsed,
+        fromEmail,
+        sinceTime,
+        recipient,
+        this.config.rules
+      );
+      if (code) {
+        await this.markUsed(message.id);
+        return code;
+      }
+    }
+    return null;
+  }
+
+  private async listMessages(): Promise<CaughtMessage[]> {
+    if (this.config.flavor === "mailhog") {
+      const data = await this.request<MailhogMessages>("/api/v2/messages?limit=50");
+      return data.items.map((item) => ({
+        id: item.ID,
+        from: `${item.Raw.From ?? ""}`,
+        read: false,
+        raw: async () => item.Raw.Data,
+      }));
+    }
+
+    const data = await this.request<MailpitMessages>("/api/v1/messages?limit=50");
+    return data.messages.map((message) => ({
+      id: message.ID,
+      from: message.From?.Address ?? "",
+      read: message.Read,
+      raw: () => this.request<string>(`/api/v1/message/${message.ID}/raw`, "text"),
+    }));
+  }
+
+  private async markUsed(id: string): Promise<void> {
+    this.used.add(id);
+    const remove = this.config.cleanup?.action === "delete";
+    let cleanup: Promise<Response> | undefined;
+    if (this.config.flavor === "mailhog") {
+      // MailHog has no read flag
+      if (remove) {
+        cleanup = fetch(`${this.baseUrl}/api/v1/messages/${id}`, { method: "DELETE" });
+      }
+    } else {
+      cleanup = fetch(`${this.baseUrl}/api/v1/messages`, {
+        method: remove ? "DELETE" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(remove ? { IDs: [id] } : { IDs: [id], Read: true }),
+      });
+    }
+    await cleanup?.catch((error) => {
+      logger.warn("Warning: Could not clean up used email", { error });
+    });
+  }
+
+  private async request<T>(path: string, as: "json" | "text" = "json"): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`);
+    if (!response.ok) {
+      throw new Error(
+        `${this.config.flavor} API ${path} failed: ${response.status} ${response.statusText}`
+      );
+    }
+    return (as === "json" ? response.json() : response.text()) as Promise<T>;
+  }
+}
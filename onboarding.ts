@@ -0,0 +1,234 @@
+import type { Page } from "playwright";
+import { logger } from "./logger";
+import { readExpensifyWorkspaces } from "./session-export";
+import type { SiteAdapter } from "./site-adapters";
+
+/**
+ * Answers to "What do you want to do today?". "manage-team" makes
+ * Expensify create a workspace during onboarding.
+ */
+export type OnboardingPurpose =
+  | "manage-team"
+  | "track"
+  | "employer"
+  | "chat-split"
+  | "other";
+
+export const ONBOARDING_PURPOSES: OnboardingPurpose[] = [
+  "manage-team",
+  "track",
+  "employer",
+  "chat-split",
+  "other",
+];
+
+/**
+ * What to fill in on the onboarding screens of a new account
+ */
+export interface OnboardingDetails {
+  firstName: string;
+  lastName: string;
+  purpose: OnboardingPurpose;
+  /** Create (or rename) a workspace with this name */
+  workspaceName?: string;
+}
+
+export interface OnboardingResult {
+  /** False when no onboarding screen showed up, e.g. the account existed */
+  onboarded: boolean;
+  workspaceID?: string;
+  workspaceName?: string;
+}
+
+type Onboarding = NonNullable<SiteAdapter["onboarding"]>;
+type Screen = "personal-details" | "employees" | "accounting" | "purpose";
+
+// How long to wait for the first onboarding screen before assuming there is none
+const FIRST_SCREEN_WAIT = 5000;
+const STEP_TIMEOUT = 15000;
+
+async function firstVisible(page: Page, selectors: string[]): Promise<string | null> {
+  for (const selector of selectors) {
+    if (await page.isVisible(selector).catch(() => false)) return selector;
+  }
+  return null;
+}
+
+async function clickFirst(page: Page, selectors: string[], what: string): Promise<void> {
+  const selector = await firstVisible(page, selectors);
+  if (!selector) throw new Error(`Could not find ${what}`);
+  await page.click(selector, { timeout: STEP_TIMEOUT });
+}
+
+async function currentScreen(
+  page: Page,
+  selectors: Onboarding,
+  purpose: OnboardingPurpose
+): Promise<Screen | null> {
+  // Most specific first: the purpose list can stay mounted behind later screens
+  if (await firstVisible(page, selectors.firstName)) return "personal-details";
+  if (await firstVisible(page, selectors.employees)) return "employees";
+  if (await firstVisible(page, selectors.accounting)) return "accounting";
+  if (await firstVisible(page, selectors.purpose[purpose])) return "purpose";
+  return null;
+}
+
+/**
+ * Clicks Continue when the screen has one. Only called while the answered
+ * screen is still showing, since some options move on by themselves.
+ */
+async function continueIfShown(page: Page, selectors: Onboarding): Promise<void> {
+  const button = await firstVisible(page, selectors.continue);
+  if (button) await page.click(button, { timeout: STEP_TIMEOUT });
+}
+
+/**
+ * Answers each onboarding screen as it shows up until none is left. Each
+ * screen is tried at most twice, so a changed UI fails instead of looping.
+ */
+async function answerScreens(
+  page: Page,
+  selectors: Onboarding,
+  details: OnboardingDetails,
+  timeout: number
+): Promise<boolean> {
+  const attempts: Partial<Record<Screen, number>> = {};
+  const start = Date.now();
+  let onboarded = false;
+
+  while (Date.now() - start < timeout) {
+    const screen = await currentScreen(page, selectors, details.purpose);
+    if (!screen) {
+      const onOnboardingUrl = selectors.paths.some((path) => page.url().includes(path));
+      if (onboarded && !onOnboardingUrl) break;
+      if (!onboarded && Date.now() - start > FIRST_SCREEN_WAIT) break;
+      await page.waitForTimeout(500);
+      continue;
+    }
+
+    onboarded = true;
+    attempts[screen] = (attempts[screen] ?? 0) + 1;
+    if (attempts[screen]! > 2) {
+      throw new Error(`Onboarding is stuck on the ${screen} screen`);
+    }
+
+    switch (screen) {
+      case "purpose":
+        logger.info(`🧭 Onboarding: purpose "${details.purpose}"`);
+        await clickFirst(page, selectors.purpose[details.purpose], `the "${details.purpose}" option`);
+        break;
+      case "employees":
+        logger.info("🧭 Onboarding: team size");
+        await clickFirst(page, selectors.employees, "a team size option");
+        break;
+      case "accounting":
+        logger.info("🧭 Onboarding: accounting software");
+        await clickFirst(page, selectors.accounting, "an accounting software option");
+        break;
+      case "personal-details": {
+        logger.info(`🧭 Onboarding: name "${details.firstName} ${details.lastName}"`);
+        await page.fill((await firstVisible(page, selectors.firstName))!, details.firstName);
+        const lastName = await firstVisible(page, selectors.lastName);
+        if (lastName) await page.fill(lastName, details.lastName);
+        break;
+      }
+    }
+    await page.waitForTimeout(500);
+    if ((await currentScreen(page, selectors, details.purpose)) === screen) {
+      await continueIfShown(page, selectors);
+    }
+    await page.waitForTimeout(1000);
+  }
+
+  if (onboarded && (await currentScreen(page, selectors, details.purpose))) {
+    throw new Error(`Onboarding did not finish within ${timeout / 1000}s`);
+  }
+  return onboarded;
+}
+
+/**
+ * Creates a workspace from the workspaces list and returns its ID, read
+ * from the URL the app opens for it
+ */
+async function createWorkspace(
+  page: Page,
+  selectors: Onboarding,
+  baseUrl: string
+): Promise<string> {
+  logger.info("🏢 Creating a workspace");
+  await page.goto(new URL("/settings/workspaces", baseUrl).href, {
+    waitUntil: "networkidle",
+  });
+  const button = await page
+    .waitForSelector(selectors.newWorkspace.join(", "), { timeout: STEP_TIMEOUT })
+    .catch(() => null);
+  if (!button) throw new Error("Could not find the New workspace button");
+  await button.click();
+  await page.waitForURL(/\/workspaces?\/[0-9A-F]{8,}/i, { timeout: STEP_TIMEOUT });
+  return page.url().match(/\/workspaces?\/([0-9A-F]{8,})/i)![1];
+}
+
+async function renameWorkspace(
+  page: Page,
+  selectors: Onboarding,
+  baseUrl: string,
+  workspaceID: string,
+  name: string
+): Promise<void> {
+  logger.info(`🏢 Naming workspace "${name}"`);
+  await page.goto(new URL(`/workspaces/${workspaceID}/overview`, baseUrl).href, {
+    waitUntil: "networkidle",
+  });
+  await page.waitForSelector(selectors.workspaceName.join(", "), { timeout: STEP_TIMEOUT });
+  await clickFirst(page, selectors.workspaceName, "the workspace name field");
+  await page.waitForSelector(selectors.workspaceNameInput.join(", "), {
+    timeout: STEP_TIMEOUT,
+  });
+  await page.fill((await firstVisible(page, selectors.workspaceNameInput))!, name);
+  await clickFirst(page, selectors.save, "the Save button");
+  await page.waitForTimeout(1000);
+}
+
+/**
+ * Fills the onboarding screens a freshly created account lands on, then
+ * makes sure a workspace named details.workspaceName exists: the one
+ * onboarding created gets that name, or a new one is made. Without a
+ * workspace name, a workspace the account administers (if any) is reported.
+ */
+export async function completeOnboarding(
+  page: Page,
+  adapter: SiteAdapter,
+  details: OnboardingDetails,
+  baseUrl: string,
+  timeout: number = 60000
+): Promise<OnboardingResult> {
+  const selectors = adapter.onboarding;
+  if (!selectors) {
+    throw new Error(`The ${adapter.name} site adapter has no onboarding screens; signup needs New Expensify`);
+  }
+
+  const onboarded = await answerScreens(page, selectors, details, timeout);
+  if (!onboarded) {
+    logger.warn("⚠️  No onboarding screens showed up; the account may already have existed");
+  }
+
+  const workspaces = (await readExpensifyWorkspaces(page)).filter(
+    (workspace) => workspace.type !== "personal" && workspace.role !== "user"
+  );
+  const workspace = workspaces[workspaces.length - 1];
+  if (!details.workspaceName) {
+    return { onboarded, workspaceID: workspace?.id, workspaceName: workspace?.name };
+  }
+
+  const existing = workspaces.find((w) => w.name === details.workspaceName);
+  if (existing) {
+    return { onboarded, workspaceID: existing.id, workspaceName: existing.name };
+  }
+
+  // Only rename a workspace this onboarding just made, never an older one
+  const workspaceID =
+    (onboarded ? workspace?.id : undefined) ??
+    (await createWorkspace(page, selectors, baseUrl));
+  await renameWorkspace(page, selectors, baseUrl, workspaceID, details.workspaceName);
+  return { onboarded, workspaceID, workspaceName: details.workspaceName };
+}
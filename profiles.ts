@@ -0,0 +1,220 @@
+import { readFile, readdir, writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { BrowserOptions, browserOptionsFromEnv, validateBrowserOptions } from "./browser-options";
+import { findCredential } from "./credentials";
+import { Environment, getEnvironment } from "./environments";
+
+const PROFILES_FILE = "profiles.json";
+const LAST_LOGIN_FILE = "last-login.json";
+
+export interface Profile {
+  name: string;
+  email: string;
+  appPassword: string;
+  loginUrl: string;
+  fromEmail: string;
+  /** Preset the URL and sender default to (ENVIRONMENT, default production) */
+  environment: Environment;
+  userDataDir: string;
+  /** Browser engine and launch settings (BROWSER_* in .env) */
+  browser: BrowserOptions;
+  /** Base32 authenticator secret, for accounts with two-factor auth */
+  totpSecret?: string;
+  recoveryCodes?: string[];
+}
+
+interface ProfileEntry {
+  email?: string;
+  appPassword?: string;
+  environment?: string;
+  loginUrl?: string;
+  fromEmail?: string;
+  userDataDir?: string;
+  browser?: BrowserOptions;
+  totpSecret?: string;
+  recoveryCodes?: string[];
+}
+
+export interface LastLogin {
+  at: string;
+  status: "success" | "failed";
+  error?: string;
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  const items = value?.split(",").map((item) => item.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+/**
+ * Parses KEY=value lines, ignoring blanks and # comments
+ */
+export function parseEnv(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith("#") && trimmed.includes("=")) {
+      const [key, ...valueParts] = trimmed.split("=");
+      const value = valueParts.join("=").trim();
+      if (key && value) {
+        env[key.trim()] = value;
+      }
+    }
+  }
+  return env;
+}
+
+export async function readEnvFile(
+  path: string
+): Promise<Record<string, string> | null> {
+  try {
+    return parseEnv(await readFile(path, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+async function readProfilesFile(): Promise<Record<string, ProfileEntry>> {
+  try {
+    return JSON.parse(await readFile(PROFILES_FILE, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw new Error(`Could not read ${PROFILES_FILE}: ${(error as Error).message}`);
+  }
+}
+
+// .env.example and .env.*.local are templates/overrides, not profiles
+function profileNameFromEnvFile(file: string): string | null {
+  const match = file.match(/^\.env\.(.+)$/);
+  if (!match || match[1] === "example" || match[1].endsWith("local")) {
+    return null;
+  }
+  return match[1];
+}
+
+/**
+ * Names of all profiles defined in profiles.json or as .env.<profile> files
+ */
+export async function listProfiles(): Promise<string[]> {
+  const names = new Set(Object.keys(await readProfilesFile()));
+  for (const file of await readdir(".")) {
+    const name = profileNameFromEnvFile(file);
+    if (name) names.add(name);
+  }
+  return [...names].sort();
+}
+
+/**
+ * Resolves a profile by name. Without a name, the default profile is built
+ * from process.env and keeps using ./browser-data. Fields missing from a
+ * named profile fall back to process.env, so aliases sharing one inbox only
+ * need to set EMAIL. An app password not written in the profile is looked up
+ * through the credential providers (env, keychain, secret-service, vault).
+ * `overrides` (e.g. from command line flags) win over everything else.
+ */
+export async function loadProfile(
+  name?: string,
+  overrides: Partial<Pick<Profile, "email" | "loginUrl">> & {
+    environment?: string;
+  } = {}
+): Promise<Profile> {
+  const env = process.env;
+  let entry: ProfileEntry = {};
+
+  if (name) {
+    const profiles = await readProfilesFile();
+    if (profiles[name]) {
+      entry = profiles[name];
+    } else {
+      const fileEnv = await readEnvFile(`.env.${name}`);
+      if (!fileEnv) {
+        throw new Error(
+          `Unknown profile "${name}". Define it in ${PROFILES_FILE} or .env.${name}`
+        );
+      }
+      entry = {
+        email: fileEnv.EMAIL,
+        appPassword: fileEnv.APP_PASSWORD,
+        environment: fileEnv.ENVIRONMENT,
+        loginUrl: fileEnv.LOGIN_URL,
+        fromEmail: fileEnv.FROM_EMAIL,
+        userDataDir: fileEnv.BROWSER_DATA_DIR,
+        browser: browserOptionsFromEnv(fileEnv),
+        totpSecret: fileEnv.TOTP_SECRET,
+        recoveryCodes: splitList(fileEnv.RECOVERY_CODES),
+      };
+    }
+  }
+
+  const email = overrides.email || entry.email || env.EMAIL;
+  if (!email) {
+    throw new Error(
+      name ? `Profile "${name}" is missing an email` : "Missing EMAIL in .env"
+    );
+  }
+
+  const appPassword =
+    entry.appPassword?.replace(/\s/g, "") ||
+    (await findCredential(email))?.secret;
+  if (!appPassword) {
+    throw new Error(
+      `No app password for ${email}: set APP_PASSWORD in .env or run \`bun run credentials set ${email}\``
+    );
+  }
+
+  const environment = getEnvironment(
+    overrides.environment || entry.environment || env.ENVIRONMENT || undefined
+  );
+  // A preset picked for this run or profile replaces LOGIN_URL/FROM_EMAIL
+  // inherited from .env; one picked with a flag also replaces the profile's
+  const inherited = overrides.environment || entry.environment ? {} : env;
+  const own = overrides.environment ? {} : entry;
+
+  return {
+    name: name || "default",
+    email,
+    appPassword,
+    loginUrl:
+      overrides.loginUrl ||
+      own.loginUrl ||
+      inherited.LOGIN_URL ||
+      environment.loginUrl,
+    fromEmail: own.fromEmail || inherited.FROM_EMAIL || environment.fromEmail,
+    environment,
+    userDataDir:
+      entry.userDataDir ||
+      (name ? join("browser-data", name) : env.BROWSER_DATA_DIR || "browser-data"),
+    // Settings the profile leaves out come from .env
+    browser: validateBrowserOptions({ ...browserOptionsFromEnv(env), ...entry.browser }),
+    // 2FA secrets are per account, so named profiles don't inherit them
+    totpSecret: name ? entry.totpSecret : env.TOTP_SECRET,
+    recoveryCodes: name ? entry.recoveryCodes : splitList(env.RECOVERY_CODES),
+  };
+}
+
+export async function readLastLogin(profile: Profile): Promise<LastLogin | null> {
+  try {
+    return JSON.parse(
+      await readFile(join(profile.userDataDir, LAST_LOGIN_FILE), "utf8")
+    );
+  } catch {
+    return null;
+  }
+}
+
+export async function recordLogin(
+  profile: Profile,
+  status: LastLogin["status"],
+  error?: unknown
+): Promise<LastLogin> {
+  const entry: LastLogin = { at: new Date().toISOString(), status };
+  if (error) {
+    entry.error = error instanceof Error ? error.message : String(error);
+  }
+  await mkdir(profile.userDataDir, { recursive: true });
+  await writeFile(
+    join(profile.userDataDir, LAST_LOGIN_FILE),
+    JSON.stringify(entry, null, 2)
+  );
+  return entry;
+}
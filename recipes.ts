@@ -0,0 +1,245 @@
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { Page } from "playwright";
+import { logger } from "./logger";
+
+interface StepOptions {
+  /** Shown in logs instead of the step itself */
+  name?: string;
+  /** Per-step timeout in ms. Default: the recipe's, else 15000 */
+  timeout?: number;
+}
+
+/**
+ * One post-login action. Selectors are Playwright selectors; text and URL
+ * patterns are case-insensitive regexes.
+ */
+export type RecipeStep = StepOptions &
+  (
+    | { goto: string }
+    | { open: string; id?: string }
+    | { click: string }
+    | { fill: string; value: string }
+    | { waitFor: string; state?: "visible" | "hidden" | "attached" | "detached" }
+    | { assert: string; text?: string }
+    | { assertUrl: string }
+  );
+
+export interface Recipe {
+  name: string;
+  description?: string;
+  /** Extra shortcuts for `open`, e.g. { "team": "/workspaces/ABC123/overview" } */
+  links?: Record<string, string>;
+  /** Default per-step timeout in ms */
+  timeout?: number;
+  /** How often a failed step is tried again. Default: 1 */
+  retries?: number;
+  steps: RecipeStep[];
+}
+
+/**
+ * Deep links for `open`, per site adapter. "{id}" is replaced by the step's
+ * id (a report or policy ID).
+ */
+export const DEEP_LINKS: Record<string, Record<string, string>> = {
+  newdot: {
+    home: "/home",
+    concierge: "/concierge",
+    search: "/search",
+    report: "/r/{id}",
+    workspaces: "/settings/workspaces",
+    workspace: "/workspaces/{id}/overview",
+    profile: "/settings/profile",
+    preferences: "/settings/preferences",
+  },
+  olddot: {
+    inbox: "/inbox",
+    reports: "/reports",
+    report: "/report?param={%22pageReportID%22:%22{id}%22}",
+    workspaces: "/admin_policies",
+    workspace: "/policy?param={%22policyID%22:%22{id}%22}",
+    settings: "/settings",
+  },
+};
+
+const ACTIONS = ["goto", "open", "click", "fill", "waitFor", "assert", "assertUrl"];
+const DEFAULT_STEP_TIMEOUT = 15000;
+
+export class RecipeError extends Error {
+  /** 1-based position of the failed step */
+  readonly step: number;
+
+  constructor(step: number, message: string) {
+    super(message);
+    this.name = "RecipeError";
+    this.step = step;
+  }
+}
+
+export interface RunRecipeOptions {
+  /** Relative goto paths and deep links resolve against this URL's origin */
+  baseUrl: string;
+  /** Built-in site adapter, picks the DEEP_LINKS table. Default: newdot */
+  site?: string;
+  /** Called after each failed attempt, e.g. to save failure artifacts */
+  onFailure?: (step: string, error: unknown) => Promise<void>;
+}
+
+function actionOf(step: RecipeStep): string {
+  return ACTIONS.find((action) => action in step) ?? "unknown";
+}
+
+// "click button:has-text("Save")", for logs
+function describeStep(step: RecipeStep): string {
+  if (step.name) return step.name;
+  const action = actionOf(step);
+  const target = (step as unknown as Record<string, unknown>)[action];
+  return "id" in step && step.id ? `${action} ${target} ${step.id}` : `${action} ${target}`;
+}
+
+function validateStep(step: RecipeStep, index: number, source: string): void {
+  const actions = ACTIONS.filter((action) => action in (step ?? {}));
+  if (actions.length !== 1) {
+    throw new Error(
+      `${source}: step ${index + 1} needs exactly one of ${ACTIONS.join(", ")}`
+    );
+  }
+  if ("fill" in step && typeof step.value !== "string") {
+    throw new Error(`${source}: step ${index + 1} (fill) needs a "value"`);
+  }
+}
+
+/**
+ * Loads a recipe from YAML, JSON or a TS/JS module whose default export is
+ * the recipe
+ */
+export async function loadRecipe(file: string): Promise<Recipe> {
+  let recipe: Recipe;
+  try {
+    recipe = (await import(pathToFileURL(resolve(file)).href)).default;
+  } catch (error) {
+    throw new Error(`Could not read recipe ${file}: ${(error as Error).message}`);
+  }
+
+  if (!recipe || !Array.isArray(recipe.steps)) {
+    throw new Error(`${file} needs a "steps" list`);
+  }
+  recipe.steps.forEach((step, index) => validateStep(step, index, file));
+  return { ...recipe, name: recipe.name || file };
+}
+
+/**
+ * URL for an `open` step: the recipe's own links first, then the site's
+ */
+function deepLink(
+  recipe: Recipe,
+  name: string,
+  id: string | undefined,
+  options: RunRecipeOptions
+): string {
+  const site = DEEP_LINKS[options.site ?? "newdot"] ?? {};
+  const path = recipe.links?.[name] ?? site[name];
+  if (!path) {
+    const known = [...Object.keys(recipe.links ?? {}), ...Object.keys(site)];
+    throw new Error(`Unknown shortcut "${name}" (expected ${known.join(", ")})`);
+  }
+  if (path.includes("{id}") && !id) {
+    throw new Error(`Shortcut "${name}" needs an id`);
+  }
+  return new URL(path.replace("{id}", id ?? ""), options.baseUrl).href;
+}
+
+async function runStep(
+  page: Page,
+  recipe: Recipe,
+  step: RecipeStep,
+  options: RunRecipeOptions
+): Promise<void> {
+  const timeout = step.timeout ?? recipe.timeout ?? DEFAULT_STEP_TIMEOUT;
+
+  if ("goto" in step) {
+    await page.goto(new URL(step.goto, options.baseUrl).href, {
+      waitUntil: "networkidle",
+      timeout,
+    });
+  } else if ("open" in step) {
+    await page.goto(deepLink(recipe, step.open, step.id, options), {
+      waitUntil: "networkidle",
+      timeout,
+    });
+  } else if ("click" in step) {
+    await page.click(step.click, { timeout });
+  } else if ("fill" in step) {
+    await page.fill(step.fill, step.value, { timeout });
+  } else if ("waitFor" in step) {
+    await page.waitForSelector(step.waitFor, {
+      state: step.state ?? "visible",
+      timeout,
+    });
+  } else if ("assert" in step) {
+    const element = await page.waitForSelector(step.assert, {
+      state: "visible",
+      timeout,
+    });
+    if (step.text) {
+      const text = (await element.textContent()) ?? "";
+      if (!new RegExp(step.text, "i").test(text)) {
+        throw new Error(`Expected ${step.assert} to match /${step.text}/i, got "${text.trim()}"`);
+      }
+    }
+  } else if ("assertUrl" in step) {
+    const pattern = new RegExp(step.assertUrl, "i");
+    await page
+      .waitForURL((url) => pattern.test(url.href), { timeout })
+      .catch(() => {
+        throw new Error(`Expected URL to match /${step.assertUrl}/i, got ${page.url()}`);
+      });
+  }
+}
+
+/**
+ * Runs each step in order on an already logged-in page. Like the login
+ * steps, a failed step is retried (recipe.retries times, default 1) and
+ * each failure is reported to onFailure before giving up.
+ */
+export async function runRecipe(
+  page: Page,
+  recipe: Recipe,
+  options: RunRecipeOptions
+): Promise<void> {
+  // Catch a misspelled shortcut before anything runs
+  for (const [index, step] of recipe.steps.entries()) {
+    if (!("open" in step)) continue;
+    try {
+      deepLink(recipe, step.open, step.id, options);
+    } catch (error) {
+      throw new RecipeError(index + 1, `Step ${index + 1}: ${(error as Error).message}`);
+    }
+  }
+
+  const retries = recipe.retries ?? 1;
+  logger.info(`📜 Running recipe: ${recipe.name} (${recipe.steps.length} steps)`);
+
+  for (const [index, step] of recipe.steps.entries()) {
+    const label = describeStep(step);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        logger.info(`▶️  ${index + 1}/${recipe.steps.length} ${label}`);
+        await runStep(page, recipe, step, options);
+        break;
+      } catch (error) {
+        await options.onFailure?.(`recipe-step-${index + 1}`, error);
+        const message = (error as Error).message;
+        if (attempt >= retries) {
+          throw new RecipeError(index + 1, `Step ${index + 1} (${label}) failed: ${message}`);
+        }
+        logger.info(
+          `🔁 Step ${index + 1} failed, trying again (retry ${attempt + 1}/${retries})`,
+          { error: message }
+        );
+      }
+    }
+  }
+
+  logger.info(`✅ Recipe done: ${recipe.name}`);
+}
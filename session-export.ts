@@ -0,0 +1,243 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { BrowserContext, Cookie, Page } from "playwright";
+import { logger } from "./logger";
+
+export type SessionFormat = "storage-state" | "cookies" | "auth";
+
+export const SESSION_FORMATS: SessionFormat[] = [
+  "storage-state",
+  "cookies",
+  "auth",
+];
+
+export interface ExpensifyAuth {
+  authToken: string;
+  accountID: number;
+  email?: string;
+}
+
+/** The Onyx "session" key, as far as it's read here */
+interface OnyxSession {
+  authToken?: string;
+  accountID: number;
+  email?: string;
+}
+
+/** An Onyx "policy_<id>" key, as far as it's read here */
+interface OnyxPolicy {
+  id?: string;
+  name: string;
+  type: string;
+  role?: string;
+}
+
+const FILE_NAMES: Record<SessionFormat, string> = {
+  "storage-state": "storage-state.json",
+  cookies: "cookies.txt",
+  auth: "auth.json",
+};
+
+/**
+ * Serializes cookies in the Netscape cookies.txt format read by curl (-b),
+ * wget and most HTTP libraries
+ */
+export function toNetscapeCookieJar(cookies: Cookie[]): string {
+  const lines = ["# Netscape HTTP Cookie File", ""];
+  for (const cookie of cookies) {
+    const includeSubdomains = cookie.domain.startsWith(".");
+    lines.push(
+      [
+        // curl marks HttpOnly cookies with this prefix on the domain
+        (cookie.httpOnly ? "#HttpOnly_" : "") + cookie.domain,
+        includeSubdomains ? "TRUE" : "FALSE",
+        cookie.path,
+        cookie.secure ? "TRUE" : "FALSE",
+        // Session cookies (expires -1) are written as 0
+        Math.max(0, Math.round(cookie.expires)),
+        cookie.name,
+        cookie.value,
+      ].join("\t")
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Reads the session Onyx keeps for New Expensify: IndexedDB (OnyxDB ->
+ * keyvaluepairs -> "session") on web, with localStorage as a fallback for
+ * older builds
+ */
+export async function readExpensifyAuth(
+  page: Page
+): Promise<ExpensifyAuth | null> {
+  const session = await page.evaluate(async (): Promise<OnyxSession | null> => {
+    const fromStorage = localStorage.getItem("session");
+    if (fromStorage) {
+      try {
+        return JSON.parse(fromStorage);
+      } catch {
+        // Not JSON; fall through to IndexedDB
+      }
+    }
+
+    return new Promise<OnyxSession | null>((resolve) => {
+      const open = indexedDB.open("OnyxDB");
+      open.onerror = () => resolve(null);
+      open.onsuccess = () => {
+        const db = open.result;
+        if (!db.objectStoreNames.contains("keyvaluepairs")) {
+          db.close();
+          resolve(null);
+          return;
+        }
+        const get = db
+          .transaction("keyvaluepairs", "readonly")
+          .objectStore("keyvaluepairs")
+          .get("session");
+        get.onsuccess = () => {
+          db.close();
+          resolve(get.result ?? null);
+        };
+        get.onerror = () => {
+          db.close();
+          resolve(null);
+        };
+      };
+    });
+  });
+
+  if (!session?.authToken) return null;
+  return {
+    authToken: logger.addSecret(session.authToken),
+    accountID: session.accountID,
+    email: session.email,
+  };
+}
+
+export interface ExpensifyWorkspace {
+  id: string;
+  name: string;
+  /** "personal", "team" or "corporate" */
+  type: string;
+  role?: string;
+}
+
+/**
+ * Workspaces (Onyx "policy_<id>" keys) the signed-in account can see, read
+ * the same way as readExpensifyAuth
+ */
+export async function readExpensifyWorkspaces(
+  page: Page
+): Promise<ExpensifyWorkspace[]> {
+  const policies = await page.evaluate(async (): Promise<(OnyxPolicy | null)[]> => {
+    const found: (OnyxPolicy | null)[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith("policy_")) continue;
+      try {
+        found.push(JSON.parse(localStorage.getItem(key) ?? "null"));
+      } catch {
+        // Not JSON; skip it
+      }
+    }
+    if (found.length) return found;
+
+    return new Promise<(OnyxPolicy | null)[]>((resolve) => {
+      const open = indexedDB.open("OnyxDB");
+      open.onerror = () => resolve([]);
+      open.onsuccess = () => {
+        const db = open.result;
+        if (!db.objectStoreNames.contains("keyvaluepairs")) {
+          db.close();
+          resolve([]);
+          return;
+        }
+        const store = db.transaction("keyvaluepairs", "readonly").objectStore("keyvaluepairs");
+        const keys = store.getAllKeys();
+        const values = store.getAll();
+        values.onsuccess = () => {
+          db.close();
+          resolve(
+            values.result.filter((_, index) =>
+              String(keys.result[index]).startsWith("policy_")
+            )
+          );
+        };
+        values.onerror = () => {
+          db.close();
+          resolve([]);
+        };
+      };
+    });
+  });
+
+  return policies
+    .filter((policy): policy is OnyxPolicy & { id: string } => !!policy?.id)
+    .map((policy) => ({
+      id: policy.id,
+      name: policy.name,
+      type: policy.type,
+      role: policy.role,
+    }));
+}
+
+/**
+ * The session in one format, as its file would hold it. Null when the
+ * authToken can't be found.
+ */
+export async function serializeSession(
+  context: BrowserContext,
+  page: Page,
+  format: SessionFormat
+): Promise<string | null> {
+  switch (format) {
+    case "storage-state":
+      return JSON.stringify(await context.storageState(), null, 2);
+    case "cookies":
+      return toNetscapeCookieJar(await context.cookies());
+    case "auth": {
+      const auth = await readExpensifyAuth(page);
+      return auth ? JSON.stringify(auth, null, 2) : null;
+    }
+  }
+}
+
+/**
+ * Writes the logged-in session to outDir in each requested format and
+ * returns the written paths
+ */
+export async function exportSession(
+  context: BrowserContext,
+  page: Page,
+  outDir: string,
+  formats: SessionFormat[] = SESSION_FORMATS
+): Promise<string[]> {
+  await mkdir(outDir, { recursive: true });
+  const written: string[] = [];
+
+  for (const format of formats) {
+    const content = await serializeSession(context, page, format);
+    if (content === null) {
+      logger.warn("⚠️  No authToken found in local storage or Onyx");
+      continue;
+    }
+    const path = join(outDir, FILE_NAMES[format]);
+    await writeFile(path, content);
+    written.push(path);
+  }
+
+  return written;
+}
+
+export function parseSessionFormats(value: string): SessionFormat[] {
+  const formats = value.split(",").map((f) => f.trim());
+  for (const format of formats) {
+    if (!SESSION_FORMATS.includes(format as SessionFormat)) {
+      throw new Error(
+        `Unknown session format "${format}" (expected ${SESSION_FORMATS.join(", ")})`
+      );
+    }
+  }
+  return formats as SessionFormat[];
+}
@@ -0,0 +1,416 @@
+import { readFile } from 'node:fs/promises';
+import { ONBOARDING_PURPOSES, type OnboardingPurpose } from './onboarding';
+
+/**
+ * Bumped when the adapter file format changes incompatibly
+ */
+export const ADAPTER_SCHEMA_VERSION = 1;
+
+/**
+ * Everything WebAutomation needs to know about a login page. Each selector
+ * list is tried in order; the first match wins.
+ */
+export interface SiteAdapter {
+  name: string;
+  /** Built-in adapter an override file customized; unset for built-ins */
+  base?: string;
+  selectors: {
+    email: string[];
+    emailSubmit: string[];
+    code: string[];
+    codeSubmit: string[];
+    success: string[];
+    logout: string[];
+    /** Authenticator (TOTP) code input shown after the magic code */
+    twoFactor: string[];
+    twoFactorSubmit: string[];
+    /** Link/button that swaps the TOTP input for a recovery code input */
+    recoveryToggle: string[];
+    recoveryCode: string[];
+  };
+  /** URL fragments that mean the login screen is showing */
+  loginPaths: string[];
+  /**
+   * Case-insensitive regexes matched against the page text after the email
+   * or code is submitted, to classify failures
+   */
+  errorPatterns: {
+    invalidCode: string[];
+    expiredCode: string[];
+    rateLimited: string[];
+    twoFactor: string[];
+  };
+  /** All in milliseconds */
+  timeouts: {
+    navigation: number;
+    /** Per email selector */
+    emailInput: number;
+    /** Per code selector */
+    codeInput: number;
+    /** Total wait for the logged-in page after submitting the code */
+    successIndicator: number;
+    afterEmailSubmit: number;
+    afterCodeSubmit: number;
+  };
+  /** Screens a new account goes through after signup; needed by signup */
+  onboarding?: {
+    /** URL fragments of the onboarding screens */
+    paths: string[];
+    /** Option to pick on the "What do you want to do today?" screen */
+    purpose: Record<OnboardingPurpose, string[]>;
+    /** Team size option, asked when managing a team */
+    employees: string[];
+    /** Accounting software option, asked when managing a team */
+    accounting: string[];
+    firstName: string[];
+    lastName: string[];
+    continue: string[];
+    newWorkspace: string[];
+    /** Row on the workspace overview that opens the name editor */
+    workspaceName: string[];
+    workspaceNameInput: string[];
+    save: string[];
+  };
+}
+
+/**
+ * New Expensify (new.expensify.com)
+ */
+export const NEWDOT: SiteAdapter = {
+  name: 'newdot',
+  selectors: {
+    email: [
+      'input[type="email"]',
+      'input[name="email"]',
+      'input[id*="email"]',
+      'input[placeholder*="email" i]',
+      'input[placeholder*="Email" i]',
+    ],
+    emailSubmit: [
+      'button[type="submit"]',
+      'button:has-text("Continue")',
+      'button:has-text("Send")',
+      'button:has-text("Next")',
+      '[role="button"]:has-text("Continue")',
+    ],
+    // Ordered by likelihood for Expensify
+    code: [
+      'input[inputmode="numeric"]',
+      'input[type="number"]',
+      'input[type="text"][name*="code" i]',
+      'input[type="text"][id*="code" i]',
+      'input[placeholder*="code" i]',
+      'input[placeholder*="magic" i]',
+    ],
+    codeSubmit: [
+      'button[type="submit"]',
+      'button:has-text("Continue")',
+      'button:has-text("Verify")',
+      'button:has-text("Login")',
+      '[role="button"]:has-text("Continue")',
+    ],
+    success: [
+      '[data-testid="workspace"]',
+      '.workspace',
+      '[aria-label*="workspace" i]',
+      'nav',
+      'header',
+    ],
+    logout: [
+      'button:has-text("Logout")',
+      'button:has-text("Log out")',
+      '[data-testid="logout"]',
+      '[aria-label*="logout" i]',
+      'a[href*="logout"]',
+    ],
+    twoFactor: [
+      'input[autocomplete="one-time-code"]',
+      'input[placeholder*="authenticator" i]',
+      'input[aria-label*="two-factor" i]',
+    ],
+    twoFactorSubmit: [
+      'button[type="submit"]',
+      'button:has-text("Verify")',
+      'button:has-text("Continue")',
+      '[role="button"]:has-text("Continue")',
+    ],
+    recoveryToggle: [
+      'button:has-text("recovery code")',
+      '[role="button"]:has-text("recovery code")',
+      'a:has-text("recovery code")',
+    ],
+    recoveryCode: [
+      'input[placeholder*="recovery" i]',
+      'input[name*="recovery" i]',
+      'input[aria-label*="recovery" i]',
+    ],
+  },
+  loginPaths: ['/login', '/signin'],
+  errorPatterns: {
+    invalidCode: [
+      'incorrect magic code',
+      'magic code .*(is )?(incorrect|invalid)',
+      // Rejected authenticator or recovery codes
+      '(incorrect|invalid) (two-factor|2fa)( authentication)? code',
+      '(incorrect|invalid) recovery code',
+    ],
+    expiredCode: ['magic code .*expired', 'code has expired'],
+    rateLimited: ['too many (attempts|requests)', 'try again later'],
+    twoFactor: [
+      'authenticator app',
+      'two-factor authentication code',
+      'enter (your )?(2fa|two-factor) code',
+    ],
+  },
+  timeouts: {
+    navigation: 30000,
+    emailInput: 5000,
+    codeInput: 2000,
+    successIndicator: 30000,
+    afterEmailSubmit: 1000,
+    afterCodeSubmit: 2000,
+  },
+  onboarding: {
+    paths: ['/onboarding'],
+    purpose: {
+      'manage-team': ['[aria-label*="Manage my team" i]', 'text=/manage my team/i'],
+      track: ['[aria-label*="Track and budget" i]', 'text=/track and budget/i'],
+      employer: ['[aria-label*="by my employer" i]', 'text=/paid back by my employer/i'],
+      'chat-split': ['[aria-label*="Chat and split" i]', 'text=/chat and split/i'],
+      other: ['[aria-label*="Something else" i]', 'text=/something else/i'],
+    },
+    employees: ['[aria-label*="1-10 employees" i]', 'text=/1-10 employees/i'],
+    accounting: ['[aria-label="None"]', 'text=/^none$/i'],
+    firstName: [
+      'input[aria-label="First name"]',
+      'input[name="firstName"]',
+      'input[placeholder*="first name" i]',
+    ],
+    lastName: [
+      'input[aria-label="Last name"]',
+      'input[name="lastName"]',
+      'input[placeholder*="last name" i]',
+    ],
+    continue: [
+      'button:has-text("Continue")',
+      '[role="button"]:has-text("Continue")',
+      'button[type="submit"]',
+    ],
+    newWorkspace: [
+      'button:has-text("New workspace")',
+      '[role="button"]:has-text("New workspace")',
+    ],
+    workspaceName: [
+      '[aria-label*="Workspace name" i]',
+      '[role="menuitem"]:has-text("Workspace name")',
+      'text=/^workspace name$/i',
+    ],
+    workspaceNameInput: ['input[aria-label*="name" i]', 'input[name="name"]'],
+    save: ['button:has-text("Save")', '[role="button"]:has-text("Save")'],
+  },
+};
+
+/**
+ * Expensify Classic (www.expensify.com)
+ */
+export const OLDDOT: SiteAdapter = {
+  name: 'olddot',
+  selectors: {
+    email: [
+      'input#login',
+      'input[name="login"]',
+      'input[type="email"]',
+      'input[placeholder*="email" i]',
+    ],
+    emailSubmit: [
+      '#js_click_submitLogin',
+      'button:has-text("Next")',
+      'button:has-text("Continue")',
+      'button[type="submit"]',
+    ],
+    code: [
+      'input#validateCode',
+      'input[name="validateCode"]',
+      'input[inputmode="numeric"]',
+      'input[placeholder*="code" i]',
+    ],
+    codeSubmit: [
+      '#js_click_signIn',
+      'button:has-text("Sign In")',
+      'button:has-text("Continue")',
+      'button[type="submit"]',
+    ],
+    success: ['#js_inbox', '#header', '.js_header', 'a[href*="/reports"]'],
+    logout: [
+      'a[href*="signout"]',
+      'a:has-text("Sign Out")',
+      'button:has-text("Sign Out")',
+    ],
+    twoFactor: [
+      'input#twoFactorAuthCode',
+      'input[name="twoFactorAuthCode"]',
+      'input[autocomplete="one-time-code"]',
+    ],
+    twoFactorSubmit: [
+      '#js_click_signIn',
+      'button:has-text("Sign In")',
+      'button[type="submit"]',
+    ],
+    recoveryToggle: [
+      'a:has-text("recovery code")',
+      'button:has-text("recovery code")',
+    ],
+    recoveryCode: ['input#recoveryCode', 'input[name*="recovery" i]'],
+  },
+  loginPaths: ['/signin', '/login', '/authentication'],
+  errorPatterns: {
+    invalidCode: [
+      '(incorrect|invalid) (magic|validate) code',
+      'code is incorrect',
+      '(incorrect|invalid) (two-factor|2fa)( authentication)? code',
+      '(incorrect|invalid) recovery code',
+    ],
+    expiredCode: ['code (has )?expired'],
+    rateLimited: ['too many (attempts|requests)', 'try again later'],
+    twoFactor: ['authenticator app', 'two-factor', 'recovery code'],
+  },
+  timeouts: {
+    navigation: 30000,
+    emailInput: 5000,
+    codeInput: 3000,
+    successIndicator: 30000,
+    afterEmailSubmit: 1500,
+    afterCodeSubmit: 3000,
+  },
+};
+
+export const BUILT_IN_ADAPTERS: Record<string, SiteAdapter> = {
+  newdot: NEWDOT,
+  olddot: OLDDOT,
+};
+
+/**
+ * Shape of a user override file. Anything left out comes from the adapter
+ * named in `extends` (default newdot); lists replace rather than merge.
+ */
+interface AdapterOverride {
+  version: number;
+  extends?: string;
+  name?: string;
+  selectors?: Partial<SiteAdapter['selectors']>;
+  loginPaths?: string[];
+  errorPatterns?: Partial<SiteAdapter['errorPatterns']>;
+  timeouts?: Partial<SiteAdapter['timeouts']>;
+  onboarding?: Partial<Omit<Onboarding, 'purpose'>> & {
+    purpose?: Partial<Onboarding['purpose']>;
+  };
+}
+
+type Onboarding = NonNullable<SiteAdapter['onboarding']>;
+
+const ONBOARDING_KEYS: (keyof Onboarding)[] = [
+  'paths',
+  'purpose',
+  'employees',
+  'accounting',
+  'firstName',
+  'lastName',
+  'continue',
+  'newWorkspace',
+  'workspaceName',
+  'workspaceNameInput',
+  'save',
+];
+
+/** Keys a complete onboarding section is missing, e.g. "purpose.track" */
+function missingOnboardingKeys(onboarding: NonNullable<AdapterOverride['onboarding']>): string[] {
+  return [
+    ...ONBOARDING_KEYS.filter((key) => key !== 'purpose' && !onboarding[key]),
+    ...ONBOARDING_PURPOSES.filter((purpose) => !onboarding.purpose?.[purpose]).map(
+      (purpose) => `purpose.${purpose}`
+    ),
+  ];
+}
+
+function isCompleteOnboarding(
+  onboarding: NonNullable<AdapterOverride['onboarding']>
+): onboarding is Onboarding {
+  return missingOnboardingKeys(onboarding).length === 0;
+}
+
+/**
+ * Merges onboarding selectors key by key. Without a base section, the
+ * override has to name every key itself.
+ */
+function mergeOnboarding(
+  base: SiteAdapter,
+  override: AdapterOverride['onboarding']
+): Onboarding | undefined {
+  if (!override) return base.onboarding;
+  if (base.onboarding) {
+    return {
+      ...base.onboarding,
+      ...override,
+      purpose: { ...base.onboarding.purpose, ...override.purpose },
+    };
+  }
+  if (!isCompleteOnboarding(override)) {
+    throw new Error(
+      `Site adapter "${base.name}" has no onboarding selectors, so the override needs onboarding.${missingOnboardingKeys(override).join(', onboarding.')}`
+    );
+  }
+  return override;
+}
+
+export function getBuiltInAdapter(name: string): SiteAdapter {
+  const adapter = BUILT_IN_ADAPTERS[name];
+  if (!adapter) {
+    throw new Error(
+      `Unknown site adapter "${name}" (expected ${Object.keys(BUILT_IN_ADAPTERS).join(', ')})`
+    );
+  }
+  return adapter;
+}
+
+export function applyOverride(
+  base: SiteAdapter,
+  override: Omit<AdapterOverride, 'version' | 'extends'>
+): SiteAdapter {
+  return {
+    name: override.name ?? `${base.name}+custom`,
+    base: base.base ?? base.name,
+    selectors: { ...base.selectors, ...override.selectors },
+    loginPaths: override.loginPaths ?? base.loginPaths,
+    errorPatterns: { ...base.errorPatterns, ...override.errorPatterns },
+    timeouts: { ...base.timeouts, ...override.timeouts },
+    onboarding: mergeOnboarding(base, override.onboarding),
+  };
+}
+
+/**
+ * Resolves the adapter to use: a built-in by name, optionally customized by
+ * a JSON override file so selector changes don't need a code change
+ */
+export async function loadSiteAdapter(
+  name: string = 'newdot',
+  overrideFile?: string
+): Promise<SiteAdapter> {
+  if (!overrideFile) return getBuiltInAdapter(name);
+
+  let override: AdapterOverride;
+  try {
+    override = JSON.parse(await readFile(overrideFile, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Could not read site adapter file ${overrideFile}: ${(error as Error).message}`
+    );
+  }
+
+  if (override.version !== ADAPTER_SCHEMA_VERSION) {
+    throw new Error(
+      `${overrideFile} has version ${override.version}, expected ${ADAPTER_SCHEMA_VERSION}`
+    );
+  }
+
+  return applyOverride(getBuiltInAdapter(override.extends ?? name), override);
+}
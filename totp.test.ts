@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { decodeBase32, hotp, msUntilNextWindow, totp } from "./totp";
+
+// The RFC 6238 SHA-1 seed "12345678901234567890", base32 encoded
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("decodeBase32", () => {
+  test.each([
+    ["", ""],
+    ["MY======", "f"],
+    ["MZXQ====", "fo"],
+    ["MZXW6===", "foo"],
+    ["MZXW6YQ=", "foob"],
+    ["MZXW6YTB", "fooba"],
+    ["MZXW6YTBOI======", "foobar"],
+  ])("%p decodes to %p (RFC 4648)", (encoded, decoded) => {
+    expect(decodeBase32(encoded).toString()).toBe(decoded);
+  });
+
+  test("accepts a secret without padding", () => {
+    expect(decodeBase32("MZXW6YTBOI").toString()).toBe("foobar");
+  });
+
+  test("accepts lowercase", () => {
+    expect(decodeBase32("mzxw6ytboi======").toString()).toBe("foobar");
+  });
+
+  test("ignores spaces and dashes from setup screens", () => {
+    expect(decodeBase32("mzxw 6ytb oi").toString()).toBe("foobar");
+    expect(decodeBase32("MZXW-6YTB-OI").toString()).toBe("foobar");
+  });
+
+  test("decodes the RFC 6238 seed", () => {
+    expect(decodeBase32(RFC_SECRET).toString()).toBe("12345678901234567890");
+  });
+
+  test("rejects characters outside the alphabet", () => {
+    expect(() => decodeBase32("MZXW1")).toThrow('Invalid base32 character "1"');
+  });
+});
+
+describe("hotp", () => {
+  // RFC 4226 appendix D
+  const key = Buffer.from("12345678901234567890");
+  const expected = [
+    "755224", "287082", "359152", "969429", "338314",
+    "254676", "287922", "162583", "399871", "520489",
+  ];
+
+  test.each(expected.map((code, counter) => [counter, code]))(
+    "counter %p gives %p",
+    (counter, code) => {
+      expect(hotp(key, counter as number)).toBe(code as string);
+    }
+  );
+});
+
+describe("totp", () => {
+  // RFC 6238 appendix B (SHA-1): the 8-digit values, and their last 6 digits
+  test.each([
+    [59, "94287082"],
+    [1111111109, "07081804"],
+    [1111111111, "14050471"],
+    [1234567890, "89005924"],
+    [2000000000, "69279037"],
+    [20000000000, "65353130"],
+  ])("at %p seconds the code is %p", (seconds, code) => {
+    expect(hotp(decodeBase32(RFC_SECRET), Math.floor(seconds / 30), 8)).toBe(code);
+    expect(totp(RFC_SECRET, seconds * 1000)).toBe(code.slice(2));
+  });
+
+  test("keeps the code for the whole 30 second window", () => {
+    expect(totp(RFC_SECRET, 60_000)).toBe(totp(RFC_SECRET, 89_999));
+    expect(totp(RFC_SECRET, 89_999)).not.toBe(totp(RFC_SECRET, 90_000));
+  });
+});
+
+describe("msUntilNextWindow", () => {
+  test("counts down to the next multiple of 30 seconds", () => {
+    expect(msUntilNextWindow(60_000)).toBe(30_000);
+    expect(msUntilNextWindow(89_999)).toBe(1);
+  });
+});
@@ -1,52 +1,169 @@
-import { chromium, Browser, Page } from 'playwright';
+import {
+  chromium,
+  devices,
+  firefox,
+  webkit,
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  BrowserType,
+  Page,
+} from 'playwright';
+import { BrowserEngine, BrowserOptions, engineDataDir } from './browser-options';
+import { LoginError, LoginErrorCode } from './login-errors';
+import { NEWDOT, SiteAdapter } from './site-adapters';
+import { logger } from './logger';
+
+const PROBLEM_MESSAGES: Partial<Record<LoginErrorCode, string>> = {
+  RATE_LIMITED: 'Expensify is rate limiting login attempts',
+  EXPIRED_CODE: 'Expensify says the magic code has expired',
+  INVALID_CODE: 'Expensify rejected the magic code',
+  TWO_FACTOR_REQUIRED: 'Account requires a two-factor authentication code',
+};
+
+const ENGINES: Record<BrowserEngine, BrowserType> = { chromium, firefox, webkit };
+
+/**
+ * Context settings shared by launched and CDP-attached browsers. A device
+ * preset comes first so explicit viewport and user agent settings win.
+ */
+function contextOptions(options: BrowserOptions, ignoreHTTPSErrors: boolean): BrowserContextOptions {
+  const device = options.device ? devices[options.device] : undefined;
+  return {
+    ...device,
+    // Firefox can't emulate mobile viewports
+    ...(device && options.engine === 'firefox' ? { isMobile: undefined } : {}),
+    viewport: options.viewport ?? device?.viewport ?? null,
+    userAgent: options.userAgent ?? device?.userAgent,
+    locale: options.locale,
+    timezoneId: options.timezoneId,
+    proxy: options.proxy,
+    ignoreHTTPSErrors,
+  };
+}
 
 export class WebAutomation {
-  private browser: Browser | null = null;
+  private browser: BrowserContext | null = null;
+  // Set when attached over CDP; closing it only disconnects
+  private cdpBrowser: Browser | null = null;
   private page: Page | null = null;
+  private adapter: SiteAdapter;
+  // False when the caller passed in its own context or page
+  private ownsBrowser: boolean = true;
+
+  constructor(adapter: SiteAdapter = NEWDOT) {
+    this.adapter = adapter;
+  }
+
+  private isLoginUrl(url: string): boolean {
+    return this.adapter.loginPaths.some((path) => url.includes(path));
+  }
 
-  async init(headless: boolean = false, devtools: boolean = false): Promise<void> {
-    const args = ['--start-maximized'];
+  async init(
+    headless: boolean = false,
+    devtools: boolean = false,
+    userDataDir: string = './browser-data',
+    ignoreHTTPSErrors: boolean = false,
+    options: BrowserOptions = {}
+  ): Promise<void> {
+    if (options.cdpUrl) {
+      await this.connect(options.cdpUrl, options, ignoreHTTPSErrors);
+      return;
+    }
+
+    const engine = options.engine ?? 'chromium';
+    // A fixed viewport or emulated device replaces the maximized window
+    const emulated = !!(options.viewport || options.device);
+    const args = [...(options.args ?? [])];
+    if (engine === 'chromium' && !emulated) {
+      args.unshift('--start-maximized');
+    }
     if (devtools) {
-      args.push('--auto-open-devtools-for-tabs');
+      if (engine === 'chromium') args.push('--auto-open-devtools-for-tabs');
+      else if (engine === 'firefox') args.push('-devtools');
+      else logger.warn('⚠️  WebKit can\'t open devtools on launch');
     }
 
-    this.browser = await chromium.launchPersistentContext('./browser-data', {
+    if (engine !== 'chromium') logger.info(`🧭 Browser: ${engine}`);
+    if (options.device) logger.info(`📱 Emulating ${options.device}`);
+    this.browser = await ENGINES[engine].launchPersistentContext(engineDataDir(userDataDir, engine), {
+      ...contextOptions(options, ignoreHTTPSErrors),
       headless,
-      slowMo: 100,
-      viewport: null,
+      slowMo: options.slowMo ?? 100,
+      executablePath: options.executablePath,
+      channel: options.channel,
       args,
     });
 
     this.page = this.browser.pages()[0] || await this.browser.newPage();
   }
 
+  /**
+   * Attaches to a running Chromium over CDP and uses its first context, so
+   * the login lands in the browser's own profile. close() only disconnects.
+   */
+  private async connect(
+    cdpUrl: string,
+    options: BrowserOptions,
+    ignoreHTTPSErrors: boolean
+  ): Promise<void> {
+    logger.info(`🔌 Attaching to browser at ${cdpUrl}`);
+    this.cdpBrowser = await chromium.connectOverCDP(cdpUrl, { slowMo: options.slowMo });
+    this.ownsBrowser = false;
+    this.browser =
+      this.cdpBrowser.contexts()[0] ??
+      await this.cdpBrowser.newContext(contextOptions(options, ignoreHTTPSErrors));
+    this.page = this.browser.pages()[0] || await this.browser.newPage();
+  }
+
+  /**
+   * Uses a context or page the caller already launched instead of starting
+   * a browser. close() then leaves it open.
+   */
+  async attach(target: BrowserContext | Page): Promise<void> {
+    this.ownsBrowser = false;
+    if ('goto' in target) {
+      this.page = target;
+      this.browser = target.context();
+    } else {
+      this.browser = target;
+      this.page = target.pages()[0] || await target.newPage();
+    }
+  }
+
   async navigateToLogin(url: string): Promise<void> {
     if (!this.page) throw new Error('Browser not initialized');
-    console.log(`🌐 Navigating to ${url}`);
-    await this.page.goto(url, { waitUntil: 'networkidle' });
+    logger.info(`🌐 Navigating to ${url}`);
+    try {
+      await this.page.goto(url, {
+        waitUntil: 'networkidle',
+        timeout: this.adapter.timeouts.navigation,
+      });
+    } catch (error) {
+      throw new LoginError(
+        'NAVIGATION_FAILED',
+        `Could not load ${url}: ${(error as Error).message}`
+      );
+    }
   }
 
   /**
    * Enters email and submits the form
-   * Adjust selectors based on actual Expensify login page structure
+   * Selectors come from the site adapter
    */
   async enterEmail(email: string): Promise<boolean> {
     if (!this.page) throw new Error('Browser not initialized');
 
     // Wait for email input to be visible
     // Try multiple possible selectors
-    const emailSelectors = [
-      'input[type="email"]',
-      'input[name="email"]',
-      'input[id*="email"]',
-      'input[placeholder*="email" i]',
-      'input[placeholder*="Email" i]',
-    ];
+    const emailSelectors = this.adapter.selectors.email;
 
     let emailInput = null;
     for (const selector of emailSelectors) {
       try {
-        emailInput = await this.page.waitForSelector(selector, { timeout: 5000 });
+        emailInput = await this.page.waitForSelector(selector, {
+          timeout: this.adapter.timeouts.emailInput,
+        });
         if (emailInput) break;
       } catch (e) {
         // Try next selector
@@ -54,25 +171,21 @@ export class WebAutomation {
     }
 
     if (!emailInput) {
-      const url = this.page.url();
-      if (!url.includes('/login') && !url.includes('/signin')) {
-        console.log('Already logged in, skipping login process');
+      if (!this.isLoginUrl(this.page.url())) {
+        logger.info('Already logged in, skipping login process');
         return false;
       }
-      throw new Error('Could not find email input field');
+      throw new LoginError(
+        'EMAIL_INPUT_NOT_FOUND',
+        'Could not find email input field'
+      );
     }
 
-    console.log(`✉️  Entering email: ${email}`);
+    logger.info(`✉️  Entering email: ${email}`);
     await this.page.fill(emailSelectors.find(s => emailInput) || emailSelectors[0], email);
 
     // Find and click submit button
-    const submitSelectors = [
-      'button[type="submit"]',
-      'button:has-text("Continue")',
-      'button:has-text("Send")',
-      'button:has-text("Next")',
-      '[role="button"]:has-text("Continue")',
-    ];
+    const submitSelectors = this.adapter.selectors.emailSubmit;
 
     let submitted = false;
     for (const selector of submitSelectors) {
@@ -81,7 +194,7 @@ export class WebAutomation {
         if (button) {
           await button.click();
           submitted = true;
-          console.log('✅ Email submitted');
+          logger.info('✅ Email submitted');
           break;
         }
       } catch (e) {
@@ -92,11 +205,11 @@ export class WebAutomation {
     if (!submitted) {
       // Try pressing Enter as fallback
       await this.page.press(emailSelectors[0], 'Enter');
-      console.log('✅ Email submitted (via Enter key)');
+      logger.info('✅ Email submitted (via Enter key)');
     }
 
     // Wait a bit for the form to process
-    await this.page.waitForTimeout(1000);
+    await this.page.waitForTimeout(this.adapter.timeouts.afterEmailSubmit);
     return true;
   }
 
@@ -107,25 +220,19 @@ export class WebAutomation {
     if (!this.page) throw new Error('Browser not initialized');
 
     // Wait for code input to appear
-    // Ordered by likelihood for Expensify
-    const codeSelectors = [
-      'input[inputmode="numeric"]',
-      'input[type="number"]',
-      'input[type="text"][name*="code" i]',
-      'input[type="text"][id*="code" i]',
-      'input[placeholder*="code" i]',
-      'input[placeholder*="magic" i]',
-    ];
+    const codeSelectors = this.adapter.selectors.code;
 
-    console.log('⏳ Waiting for code input field...');
+    logger.debug('⏳ Waiting for code input field...');
     let codeInput = null;
     let foundSelector = '';
     for (const selector of codeSelectors) {
       try {
-        codeInput = await this.page.waitForSelector(selector, { timeout: 2000 });
+        codeInput = await this.page.waitForSelector(selector, {
+          timeout: this.adapter.timeouts.codeInput,
+        });
         if (codeInput) {
           foundSelector = selector;
-          console.log(`🔑 Found code input with selector: ${selector}`);
+          logger.debug(`🔑 Found code input with selector: ${selector}`);
           break;
         }
       } catch (e) {
@@ -135,7 +242,7 @@ export class WebAutomation {
 
     if (!codeInput || !foundSelector) {
       // Log page content for debugging
-      console.error('Available inputs on page:', await this.page.$$eval('input', (inputs) =>
+      logger.debug('Available inputs on page', { inputs: await this.page.$$eval('input', (inputs) =>
         inputs.map(i => ({
           type: i.type,
           name: i.name,
@@ -143,21 +250,18 @@ export class WebAutomation {
           placeholder: i.placeholder,
           inputmode: i.inputMode,
         }))
-      ));
-      throw new Error('Could not find code input field');
+      ) });
+      throw new LoginError(
+        'CODE_INPUT_NOT_FOUND',
+        'Could not find code input field'
+      );
     }
 
-    console.log(`🔑 Entering code: ${code}`);
+    logger.info('🔑 Entering code', { code });
     await this.page.fill(foundSelector, code);
 
     // Submit the code
-    const submitSelectors = [
-      'button[type="submit"]',
-      'button:has-text("Continue")',
-      'button:has-text("Verify")',
-      'button:has-text("Login")',
-      '[role="button"]:has-text("Continue")',
-    ];
+    const submitSelectors = this.adapter.selectors.codeSubmit;
 
     let submitted = false;
     for (const selector of submitSelectors) {
@@ -166,7 +270,7 @@ export class WebAutomation {
         if (button) {
           await button.click();
           submitted = true;
-          console.log('✅ Code submitted');
+          logger.info('✅ Code submitted');
           break;
         }
       } catch (e) {
@@ -177,90 +281,224 @@ export class WebAutomation {
     if (!submitted) {
       // Try pressing Enter as fallback
       await this.page.press(foundSelector, 'Enter');
-      console.log('✅ Code submitted (via Enter key)');
+      logger.info('✅ Code submitted (via Enter key)');
     }
 
     // Wait a bit for login to complete
-    await this.page.waitForTimeout(2000);
+    await this.page.waitForTimeout(this.adapter.timeouts.afterCodeSubmit);
   }
 
   /**
-   * Waits for login success indicator
+   * Fills the authenticator code, or a recovery code after switching the
+   * form to recovery mode, and submits it
    */
-  async waitForLoginSuccess(
-    successIndicators: string[] = [
-      '[data-testid="workspace"]',
-      '.workspace',
-      '[aria-label*="workspace" i]',
-      'nav',
-      'header',
-    ]
+  async enterTwoFactorCode(
+    code: string,
+    recovery: boolean = false
   ): Promise<void> {
     if (!this.page) throw new Error('Browser not initialized');
 
-    console.log('⏳ Waiting for login to complete...');
-    
-    // Wait for any success indicator
-    for (const selector of successIndicators) {
+    if (recovery) {
+      const toggle = await this.findFirst(this.adapter.selectors.recoveryToggle);
+      if (toggle) {
+        await this.page.click(toggle);
+      }
+    }
+
+    const inputSelectors = recovery
+      ? this.adapter.selectors.recoveryCode
+      : this.adapter.selectors.twoFactor;
+    const input = await this.findFirst(
+      inputSelectors,
+      this.adapter.timeouts.codeInput
+    );
+    if (!input) {
+      throw new LoginError(
+        'CODE_INPUT_NOT_FOUND',
+        `Could not find ${recovery ? 'recovery' : 'two-factor'} code input field`
+      );
+    }
+
+    logger.info(`🔐 Entering ${recovery ? 'recovery' : 'authenticator'} code`);
+    await this.page.fill(input, code);
+
+    const submit = await this.findFirst(this.adapter.selectors.twoFactorSubmit);
+    if (submit) {
+      await this.page.click(submit);
+    } else {
+      await this.page.press(input, 'Enter');
+    }
+    logger.info('✅ Two-factor code submitted');
+
+    await this.page.waitForTimeout(this.adapter.timeouts.afterCodeSubmit);
+  }
+
+  /**
+   * First selector that matches a visible element, waiting up to timeout
+   * for each
+   */
+  private async findFirst(
+    selectors: string[],
+    timeout: number = 0
+  ): Promise<string | null> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    for (const selector of selectors) {
       try {
-        await this.page.waitForSelector(selector, { timeout: 10000 });
-        console.log('✅ Login successful!');
-        return;
+        if (timeout > 0) {
+          await this.page.waitForSelector(selector, {
+            state: 'visible',
+            timeout,
+          });
+          return selector;
+        }
+        if (await this.page.isVisible(selector)) return selector;
       } catch (e) {
-        // Try next indicator
+        // Try next selector
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Waits for login success indicator, failing fast if the page reports a
+   * wrong/expired code, rate limiting or a 2FA prompt. Problems listed in
+   * `ignore` are not treated as failures (e.g. the 2FA prompt itself while
+   * a two-factor code is being verified).
+   */
+  async waitForLoginSuccess(
+    successIndicators: string[] = this.adapter.selectors.success,
+    ignore: LoginErrorCode[] = []
+  ): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    logger.info('⏳ Waiting for login to complete...');
+
+    const deadline = Date.now() + this.adapter.timeouts.successIndicator;
+    while (Date.now() < deadline) {
+      // Generic indicators like nav/header can exist on the login page too
+      if (!this.isLoginUrl(this.page.url())) {
+        for (const selector of successIndicators) {
+          if (await this.page.isVisible(selector).catch(() => false)) {
+            logger.info('✅ Login successful!');
+            return;
+          }
+        }
       }
+
+      await this.throwIfLoginProblem(ignore);
+
+      await this.page.waitForTimeout(500);
     }
 
-    // If no specific indicator found, just wait a bit and check URL
-    await this.page.waitForTimeout(3000);
-    const url = this.page.url();
-    if (!url.includes('/login') && !url.includes('/signin')) {
-      console.log('✅ Login successful! (URL changed)');
+    // If no specific indicator found, check URL
+    if (!this.isLoginUrl(this.page.url())) {
+      logger.info('✅ Login successful! (URL changed)');
       return;
     }
 
-    console.log('⚠️  Could not confirm login success, but continuing...');
+    throw new LoginError(
+      'LOGIN_NOT_CONFIRMED',
+      'Code was submitted but the logged-in page never appeared'
+    );
   }
 
   /**
-   * Logs out from Expensify
+   * Classifies an error shown on the login page using the adapter's error
+   * patterns, or returns null if there is none. Pages past login are never
+   * matched, since a chat message or settings link can contain the same words.
    */
-  async logout(): Promise<void> {
+  async detectLoginProblem(
+    ignore: LoginErrorCode[] = []
+  ): Promise<LoginErrorCode | null> {
     if (!this.page) throw new Error('Browser not initialized');
-
-    const logoutSelectors = [
-      'button:has-text("Logout")',
-      'button:has-text("Log out")',
-      '[data-testid="logout"]',
-      '[aria-label*="logout" i]',
-      'a[href*="logout"]',
+    if (!this.isLoginUrl(this.page.url())) return null;
+
+    const text = await this.page
+      .evaluate(() => document.body?.innerText ?? '')
+      .catch(() => '');
+    const patterns = this.adapter.errorPatterns;
+    const checks: [LoginErrorCode, string[]][] = [
+      ['RATE_LIMITED', patterns.rateLimited],
+      ['EXPIRED_CODE', patterns.expiredCode],
+      ['INVALID_CODE', patterns.invalidCode],
+      ['TWO_FACTOR_REQUIRED', patterns.twoFactor],
     ];
 
+    for (const [code, sources] of checks) {
+      if (ignore.includes(code)) continue;
+      if (sources.some((source) => new RegExp(source, 'i').test(text))) {
+        return code;
+      }
+    }
+    return null;
+  }
+
+  async throwIfLoginProblem(ignore: LoginErrorCode[] = []): Promise<void> {
+    const problem = await this.detectLoginProblem(ignore);
+    if (problem) {
+      throw new LoginError(problem, PROBLEM_MESSAGES[problem] ?? problem);
+    }
+  }
+
+  /**
+   * Checks whether the page is showing the login form, using the same URL
+   * and email input heuristics as enterEmail/waitForLoginSuccess
+   */
+  async isOnLoginScreen(): Promise<boolean> {
+    if (!this.page) throw new Error('Browser not initialized');
+    if (this.isLoginUrl(this.page.url())) return true;
+
+    for (const selector of this.adapter.selectors.email) {
+      if (await this.page.isVisible(selector).catch(() => false)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Logs out from Expensify. Resolves false if no logout button was found.
+   */
+  async logout(): Promise<boolean> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const logoutSelectors = this.adapter.selectors.logout;
+
     for (const selector of logoutSelectors) {
       try {
         const button = await this.page.$(selector);
         if (button) {
           await button.click();
-          console.log('👋 Logged out');
+          logger.info('👋 Logged out');
           await this.page.waitForTimeout(1000);
-          return;
+          return true;
         }
       } catch (e) {
         // Try next selector
       }
     }
 
-    console.log('⚠️  Could not find logout button');
+    logger.warn('⚠️  Could not find logout button');
+    return false;
   }
 
   async close(): Promise<void> {
-    if (this.browser) {
+    if (this.cdpBrowser) {
+      await this.cdpBrowser.close();
+      this.cdpBrowser = null;
+      logger.info('🔌 Detached from browser');
+    } else if (this.browser && this.ownsBrowser) {
       await this.browser.close();
-      console.log('🔒 Browser closed');
+      logger.info('🔒 Browser closed');
     }
   }
 
   getPage(): Page | null {
     return this.page;
   }
+
+  getContext(): BrowserContext | null {
+    return this.browser;
+  }
 }
@@ -0,0 +1,170 @@
+import { createServer, IncomingMessage, Server } from "node:http";
+import { simpleParser, ParsedMail } from "mailparser";
+import { CodeCandidate, CodeRegistry } from "./code-registry";
+import { candidateFromParsedMail, CodeSource } from "./code-source";
+import type { CodeRule } from "./code-rules";
+import { hasBearerToken } from "./http-auth";
+import { logger } from "./logger";
+
+/** Larger bodies are rejected with 413; code emails are a few KB */
+const MAX_BODY_BYTES = 1024 * 1024;
+/** Forwarded emails kept for logins that start later; oldest go first */
+const MAX_INBOX = 100;
+
+class BodyTooLargeError extends Error {}
+
+interface WebhookConfig {
+  port: number;
+  host?: string;
+  /** Required as "Authorization: Bearer <token>" when set */
+  token?: string;
+  /** Code extraction rules. Default: DEFAULT_CODE_RULES */
+  rules?: CodeRule[];
+}
+
+interface ReceivedMail {
+  candidate: CodeCandidate;
+  used: boolean;
+}
+
+/**
+ * Receives mail forwarded by a catch-all service (Mailgun/SendGrid inbound
+ * parse, Cloudflare Email Workers, ...). Accepts POST bodies that are either
+ * a raw RFC 822 message or JSON with a "raw" field or
+ * from/to/subject/text/html/date fields.
+ */
+export class WebhookSource implements CodeSource {
+  private config: WebhookConfig;
+  private server: Server | null = null;
+  private inbox: ReceivedMail[] = [];
+  private pending = new CodeRegistry();
+
+  constructor(config: WebhookConfig) {
+    this.config = config;
+  }
+
+  async connect(): Promise<void> {
+    if (this.server) return;
+
+    this.server = createServer(async (req, res) => {
+      if (req.method !== "POST") {
+        res.writeHead(405).end();
+        return;
+      }
+      if (!this.isAuthorized(req)) {
+        res.writeHead(401).end();
+        return;
+      }
+
+      try {
+        const parsed = await this.parseBody(req);
+        this.receive(parsed);
+        res.writeHead(202).end();
+      } catch (error) {
+        if (error instanceof BodyTooLargeError) {
+          res.writeHead(413, { Connection: "close" }).end();
+          return;
+        }
+        logger.warn("⚠️  Could not parse webhook mail", { error });
+        res.writeHead(400).end();
+      }
+    });
+
+    const host = this.config.host ?? "127.0.0.1";
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.config.port, host, () => resolve());
+    });
+    logger.info(
+      `✅ Listening for forwarded mail on http://${host}:${this.config.port}`
+    );
+  }
+
+  async waitForCode(
+    fromEmail: string = "noreply@expensify.com",
+    maxWaitTime: number = 60000,
+    sinceTime?: Date,
+    recipient?: string
+  ): Promise<string> {
+    if (!this.server) {
+      await this.connect();
+    }
+
+    logger.info("⏳ Waiting for Expensify magic code email...");
+
+    const code = this.pending.add(
+      { fromEmail, sinceTime, recipient },
+      maxWaitTime
+    );
+    // The email may have been forwarded before we started waiting
+    for (const mail of [...this.inbox].reverse()) {
+      this.offer(mail);
+    }
+
+    const result = await code;
+    logger.info("📧 Code found in email", { code: result });
+    return result;
+  }
+
+  disconnect(): void {
+    this.server?.close();
+    this.server = null;
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    return !this.config.token || hasBearerToken(req, this.config.token);
+  }
+
+  private async parseBody(req: IncomingMessage): Promise<ParsedMail> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) {
+        throw new BodyTooLargeError(`Body over ${MAX_BODY_BYTES} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+    const body = Buffer.concat(chunks);
+
+    if (!req.headers["content-type"]?.includes("application/json")) {
+      return simpleParser(body);
+    }
+
+    const json = JSON.parse(body.toString("utf8"));
+    if (typeof json.raw === "string") {
+      return simpleParser(json.raw);
+    }
+
+    // Rebuild a minimal message so the same filters apply as for raw mail
+    const contentType = json.html && !json.text ? "text/html" : "text/plain";
+    const headers = [
+      `From: ${json.from ?? ""}`,
+      `To: ${json.to ?? ""}`,
+      `Subject: ${json.subject ?? ""}`,
+      `Date: ${new Date(json.date ?? Date.now()).toUTCString()}`,
+      `Content-Type: ${contentType}; charset=utf-8`,
+    ];
+    const content = json.text ?? json.html ?? "";
+    return simpleParser(`${headers.join("\r\n")}\r\n\r\n${content}`);
+  }
+
+  private receive(parsed: ParsedMail): void {
+    logger.info(`📬 Received forwarded email: "${parsed.subject ?? ""}"`);
+    const candidate = candidateFromParsedMail(parsed, undefined, this.config.rules);
+    if (!candidate) return;
+
+    const mail: ReceivedMail = { candidate, used: false };
+    this.inbox.push(mail);
+    if (this.inbox.length > MAX_INBOX) {
+      this.inbox.splice(0, this.inbox.length - MAX_INBOX);
+    }
+    this.offer(mail);
+  }
+
+  private offer(mail: ReceivedMail): void {
+    if (!mail.used && this.pending.offer(mail.candidate)) {
+      mail.used = true;
+    }
+  }
+}